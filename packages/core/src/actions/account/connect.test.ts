@@ -52,6 +52,25 @@ describe('connect', () => {
     expect(getActivePublicKeySpy).toHaveBeenCalledOnce();
   });
 
+  it('should merge the data restored by the connector into the client state', async () => {
+    const connector = {
+      id: 'test',
+      connect: vi.fn(),
+      getActivePublicKey: vi.fn().mockReturnValue('active-key'),
+      getData: vi.fn().mockReturnValue({ ledgerAccountIndex: '3' }),
+      isConnected: vi.fn().mockResolvedValueOnce(true),
+    } as unknown as Connector;
+
+    await connect({ connector });
+
+    expect(callBackSpy.mock.results[1]?.value).toMatchObject({
+      data: {
+        activeKey: 'active-key',
+        ledgerAccountIndex: '3',
+      },
+    });
+  });
+
   it('should throw an error if a connector is already connected', async () => {
     const connector = {
       id: 'test2',
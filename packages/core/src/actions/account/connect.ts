@@ -1,8 +1,9 @@
-import { Connector, StatusEnum, ConnectorAlreadyConnectedError } from '@casperdash/usewallet-core';
-import { getClient, StateParams } from '@casperdash/usewallet-core/utils/client';
+import { Connector, ConnectorData, StatusEnum, ConnectorAlreadyConnectedError } from '@casperdash/usewallet-core';
+import { Client, getClient, StateParams } from '@casperdash/usewallet-core/utils/client';
 
 export type ConnectParams = {
   connector: Connector;
+  client?: Client;
 };
 
 export type ConnectResult = {
@@ -16,14 +17,12 @@ const getActiveKey = async (connector: Connector) => {
   }
 
   return {
+    ...connector.getData?.(),
     activeKey,
   };
 };
 
-export const connect = async ({ connector }: ConnectParams): Promise<ConnectResult> => {
-
-  // get the client object of @casperdash/usewallet-core
-  const client = getClient();
+export const connect = async ({ connector, client = getClient() }: ConnectParams): Promise<ConnectResult> => {
 
   /* check if there is an active connector available in the client object;
   if available, throw error if the active connector and this connector are not the same.*/
@@ -42,17 +41,13 @@ export const connect = async ({ connector }: ConnectParams): Promise<ConnectResu
     // Declare and initialize variables for storing custom data and the status of connection establishment
     let isConnected = false;
 
-    let customData: { activeKey?: string } = {};
+    let customData: ConnectorData = {};
     try {
       // Specify to check whether the connector is connected or not by calling the `isConnected()` method on connector
       isConnected = !!await connector.isConnected();
       if (isConnected) {
         // If the connection is established successfully, get the active public key from the connector
-        const { activeKey } = await getActiveKey(connector);
-
-        customData = {
-          activeKey: activeKey,
-        };
+        customData = await getActiveKey(connector);
       }
     } catch (err) {
       if (connector.id === 'ledger') {
@@ -61,10 +56,7 @@ export const connect = async ({ connector }: ConnectParams): Promise<ConnectResu
 
       await connector.connect();
       try {
-        const { activeKey } = await getActiveKey(connector);
-        customData = {
-          activeKey,
-        };
+        customData = await getActiveKey(connector);
       } catch {
         customData = {};
       }
@@ -1,12 +1,14 @@
-import { getClient } from '@casperdash/usewallet-core/utils/client';
+import { Client, getClient } from '@casperdash/usewallet-core/utils/client';
+
+export type DisconnectParams = {
+  client?: Client;
+};
 
 /**
  * It disconnects the client from the server, and updates the client's state to reflect the new status
+ * @param {DisconnectParams}  - `client` - the client to disconnect, defaults to the global client
  */
-export const disconnect = async (): Promise<void> => {
-  /* Getting the client from the core library. */
-  const client = getClient();
-
+export const disconnect = async ({ client = getClient() }: DisconnectParams = {}): Promise<void> => {
   try {
     /* Calling the `disconnect` method of the connector. */
     await client.connector?.disconnect();
@@ -0,0 +1,120 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CLPublicKey, Keys } from 'casper-js-sdk';
+import { CasperDashConnector, Connector } from '@casperdash/usewallet-core/connectors';
+import { ConnectorNotLedgerError, RpcUrlNotFoundError } from '@casperdash/usewallet-core/errors';
+import { LedgerPathTemplateEnum } from '@casperdash/usewallet-core/enums';
+import { createClient } from '@casperdash/usewallet-core/utils/client';
+import { getLedgerPath } from '@casperdash/usewallet-core/utils/ledger';
+
+import { createRpcStandIn, RpcError, RpcStandIn } from '../../../test';
+
+import { DiscoveredLedgerAccount, discoverLedgerAccounts } from './discoverLedgerAccounts';
+
+describe('discoverLedgerAccounts', () => {
+  const stateRootHash = 'ab'.repeat(32);
+  const publicKeys = Array.from({ length: 6 }, () => Keys.Secp256K1.new().publicKey.toHex());
+  const fundedAccountHashes = [0, 2].map((index: number) => CLPublicKey.fromHex(publicKeys[index] as string).toAccountHashStr());
+  const mainPurse = (accountHash: string) => `uref-${accountHash.slice('account-hash-'.length)}-007`;
+  const ledgerConnector = {
+    id: 'ledger',
+    getPublicKey: vi.fn(async (path: string) => Promise.resolve(publicKeys.find((_publicKey: string, index: number) => [
+      getLedgerPath(index.toString()),
+      getLedgerPath(index.toString(), LedgerPathTemplateEnum.ACCOUNT_INDEX),
+    ].includes(path)))),
+  } as unknown as Connector;
+  let standIn: RpcStandIn;
+
+  beforeEach(async () => {
+    standIn = await createRpcStandIn({
+      chain_get_state_root_hash: () => ({ api_version: '1.5.6', state_root_hash: stateRootHash }),
+      state_get_item: ({ key }: Record<string, unknown>) => {
+        if (!fundedAccountHashes.includes(key as string)) {
+          throw new RpcError({ code: -32003, message: 'state query failed: ValueNotFound' });
+        }
+
+        return {
+          api_version: '1.5.6',
+          stored_value: {
+            Account: {
+              account_hash: key,
+              named_keys: [],
+              main_purse: mainPurse(key as string),
+              associated_keys: [{ account_hash: key, weight: 1 }],
+              action_thresholds: { deployment: 1, key_management: 1 },
+            },
+          },
+        };
+      },
+      state_get_balance: ({ purse_uref: purseUref }: Record<string, unknown>) => ({
+        api_version: '1.5.6',
+        balance_value: purseUref === mainPurse(fundedAccountHashes[0] as string) ? '100' : '5',
+      }),
+    });
+    createClient({ connectors: [new CasperDashConnector(), ledgerConnector], rpcUrl: standIn.rpcUrl });
+  });
+
+  afterEach(async () => {
+    await standIn.close();
+  });
+
+  it('should stop after gapLimit accounts in a row do not exist', async () => {
+    const accounts = await discoverLedgerAccounts({ gapLimit: 2 });
+
+    expect(accounts.map(({ index, exists, balance }: DiscoveredLedgerAccount) => ({ index, exists, balance }))).toEqual([
+      { index: 0, exists: true, balance: '100' },
+      { index: 1, exists: false, balance: '0' },
+      { index: 2, exists: true, balance: '5' },
+      { index: 3, exists: false, balance: '0' },
+      { index: 4, exists: false, balance: '0' },
+    ]);
+    expect(accounts[0]).toMatchObject({
+      path: 'm/44\'/506\'/0\'/0/0',
+      publicKey: publicKeys[0],
+      accountHash: fundedAccountHashes[0],
+    });
+    expect(standIn.calls).toContainEqual({
+      method: 'state_get_item',
+      params: { state_root_hash: stateRootHash, key: fundedAccountHashes[0], path: [] },
+    });
+  });
+
+  it('should derive the accounts with the path template', async () => {
+    const accounts = await discoverLedgerAccounts({ gapLimit: 1, pathTemplate: LedgerPathTemplateEnum.ACCOUNT_INDEX });
+
+    expect(accounts.map(({ path }: DiscoveredLedgerAccount) => path)).toEqual([
+      'm/44\'/506\'/0\'/0/0',
+      'm/44\'/506\'/1\'/0/0',
+    ]);
+  });
+
+  it('should use the given rpcUrl over the one of the client config', async () => {
+    createClient({ connectors: [ledgerConnector], rpcUrl: 'http://localhost:1/rpc' });
+
+    await expect(discoverLedgerAccounts({ rpcUrl: standIn.rpcUrl, gapLimit: 1 })).resolves.toHaveLength(2);
+  });
+
+  it('should rethrow other RPC errors', async () => {
+    await standIn.close();
+    standIn = await createRpcStandIn({
+      chain_get_state_root_hash: () => ({ api_version: '1.5.6', state_root_hash: stateRootHash }),
+      state_get_item: () => {
+        throw new RpcError({ code: -32600, message: 'Invalid Request' });
+      },
+    });
+
+    await expect(discoverLedgerAccounts({ rpcUrl: standIn.rpcUrl })).rejects.toMatchObject({ code: -32600 });
+  });
+
+  it('should throw RpcUrlNotFoundError without an RPC URL', async () => {
+    createClient({ connectors: [ledgerConnector] });
+
+    await expect(discoverLedgerAccounts()).rejects.toThrowError(RpcUrlNotFoundError);
+  });
+
+  it('should throw ConnectorNotLedgerError when there is no ledger connector', async () => {
+    createClient({ connectors: [new CasperDashConnector()] });
+
+    await expect(discoverLedgerAccounts()).rejects.toThrowError(ConnectorNotLedgerError);
+  });
+});
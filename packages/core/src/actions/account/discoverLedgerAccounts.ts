@@ -0,0 +1,103 @@
+import { CasperServiceByJsonRPC, CLPublicKey } from 'casper-js-sdk';
+import { Connector } from '@casperdash/usewallet-core/connectors/base';
+import { ConnectorNotLedgerError } from '@casperdash/usewallet-core/errors';
+import { CasperLedgerConnector } from '@casperdash/usewallet-core/types/casperLedgerConnector';
+import { Client, getClient } from '@casperdash/usewallet-core/utils/client';
+import { getRpcUrl } from '@casperdash/usewallet-core/utils/deploy';
+import { getLedgerPath } from '@casperdash/usewallet-core/utils/ledger';
+
+/* RPC error code of a missing account, `QueryFailed` as answered by `state_get_item` */
+const ACCOUNT_NOT_FOUND_ERROR_CODE = -32003;
+
+type Params = {
+  /* The RPC URL of the client config by default */
+  rpcUrl?: string;
+  gapLimit?: number;
+  startIndex?: number;
+  pathTemplate?: string;
+  client?: Client;
+};
+
+export type DiscoveredLedgerAccount = {
+  index: number;
+  path: string;
+  publicKey: string;
+  accountHash: string;
+  balance: string;
+  exists: boolean;
+};
+
+/**
+ * It returns the main purse balance of the account in motes, or undefined when the account does not exist
+ * on the network
+ * @param {CasperServiceByJsonRPC} casperService - The service of the node.
+ * @param {string} stateRootHash - The state root hash to read the account and its balance at.
+ * @param {string} publicKey - The public key of the account.
+ * @returns The balance of the account.
+ */
+const getAccountBalance = async (
+  casperService: CasperServiceByJsonRPC,
+  stateRootHash: string,
+  publicKey: string,
+): Promise<string | undefined> => {
+  let mainPurse: string;
+  try {
+    mainPurse = await casperService.getAccountBalanceUrefByPublicKey(stateRootHash, CLPublicKey.fromHex(publicKey));
+  } catch (error) {
+    if ((error as { code?: number }).code === ACCOUNT_NOT_FOUND_ERROR_CODE) {
+      return undefined;
+    }
+
+    throw error;
+  }
+
+  const balance = await casperService.getAccountBalance(stateRootHash, mainPurse);
+
+  return balance.toString();
+};
+
+/**
+ * It walks the derivation indexes of the Ledger device from `startIndex`, and looks each account up on
+ * the node at `rpcUrl`, the one of the client config by default, until `gapLimit` accounts in a row do
+ * not exist. The accounts are derived with `pathTemplate`, `m/44'/506'/0'/0/{index}` by default. It uses
+ * the active connector or, before connecting, the Ledger connector of the client.
+ * @returns The walked accounts, including the trailing empty ones.
+ */
+export const discoverLedgerAccounts = async ({
+  rpcUrl,
+  gapLimit = 5,
+  startIndex = 0,
+  pathTemplate,
+  client = getClient(),
+}: Params = {}): Promise<DiscoveredLedgerAccount[]> => {
+  const connector = client.connector?.id === 'ledger'
+    ? client.connector
+    : client.connectors?.find((item: Connector) => item.id === 'ledger');
+
+  if (!connector) {
+    throw new ConnectorNotLedgerError();
+  }
+
+  const casperService = new CasperServiceByJsonRPC(getRpcUrl(rpcUrl, client));
+  const stateRootHash = await casperService.getStateRootHash();
+  const accounts: DiscoveredLedgerAccount[] = [];
+  let gap = 0;
+  for (let index = startIndex; gap < gapLimit; index++) {
+    const path = getLedgerPath(index.toString(), pathTemplate);
+    const publicKey = await (connector as unknown as CasperLedgerConnector).getPublicKey(path);
+    const balance = await getAccountBalance(casperService, stateRootHash, publicKey);
+    const exists = balance !== undefined;
+
+    accounts.push({
+      index,
+      path,
+      publicKey,
+      accountHash: CLPublicKey.fromHex(publicKey).toAccountHashStr(),
+      balance: balance ?? '0',
+      exists,
+    });
+    gap = exists ? 0 : gap + 1;
+  }
+
+  return accounts;
+};
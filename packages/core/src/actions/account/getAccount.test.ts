@@ -1,4 +1,4 @@
-import { createClient, getClient } from '@casperdash/usewallet-core/utils';
+import { Client, createClient, getClient, StateParams } from '@casperdash/usewallet-core/utils';
 import { describe, expect, it, vi } from 'vitest';
 import { CasperDashConnector } from '@casperdash/usewallet-core/connectors';
 import { StatusEnum } from '@casperdash/usewallet-core/enums';
@@ -38,6 +38,34 @@ describe('getAccount', () => {
     });
   });
 
+  it('should return the account details of the given client instead of the global one', () => {
+    const connector = new CasperDashConnector();
+    const status = StatusEnum.CONNECTED;
+
+    createClient({
+      connectors: [new CasperDashConnector()],
+    });
+    const client = new Client({
+      connectors: [connector],
+    });
+    client.setState((x: StateParams) => ({
+      ...x,
+      connector,
+      status,
+      data: {
+        activeKey: 'def456',
+      },
+    }));
+
+    expect(getAccount({ client })).toEqual({
+      publicKey: 'def456',
+      status,
+      connector,
+      ledgerAccountIndex: '0',
+    });
+    expect(getAccount()?.publicKey).toBeUndefined();
+  });
+
   it('should return the account details with undefined publicKey if data is not set', () => {
     const connector = new CasperDashConnector();
     const status = StatusEnum.DISCONNECTED;
@@ -1,6 +1,6 @@
 import { Connector } from '@casperdash/usewallet-core/connectors';
 import { StatusEnum } from '@casperdash/usewallet-core/enums';
-import { getClient } from '@casperdash/usewallet-core/utils';
+import { Client, getClient } from '@casperdash/usewallet-core/utils';
 
 export type Account = {
   publicKey?: string;
@@ -8,24 +8,30 @@ export type Account = {
   connector?: Connector;
   isConnected?: boolean;
   ledgerAccountIndex?: string;
+  ledgerAccountPath?: string;
+};
+
+export type GetAccountParams = {
+  client?: Client;
 };
 
 /**
  * It returns an object with the public key, status, and connector of the current account
+ * @param {GetAccountParams}  - `client` - the client to read from, defaults to the global client
  * @returns An object with the public key, status, and connector.
  */
-export const getAccount = (): Account | null => {
+export const getAccount = ({ client }: GetAccountParams = {}): Account | null => {
   try {
     /* Getting the client from the `usewallet-core` package. */
-    const client = getClient();
-    const { data, status, connector } = client;
+    const { data, status, connector } = client ?? getClient();
 
     return {
       publicKey: data?.activeKey,
       status,
       connector,
       isConnected: data?.isConnected,
-      ledgerAccountIndex: data?.ledgerAccountIndex || '0',
+      ledgerAccountIndex: data?.ledgerAccountIndex ?? (data?.ledgerAccountPath ? undefined : '0'),
+      ledgerAccountPath: data?.ledgerAccountPath,
     };
   } catch (error) {
     console.error(error);
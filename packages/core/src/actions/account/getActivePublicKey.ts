@@ -1,12 +1,17 @@
-import { getClient } from '@casperdash/usewallet-core/utils/client';
+import { Client, getClient } from '@casperdash/usewallet-core/utils/client';
+
+export type GetActivePublicKeyParams = {
+  client?: Client;
+};
 
 /**
  * It returns the active public key of the user's wallet
+ * @param {GetActivePublicKeyParams}  - `client` - the client to read from, defaults to the global client
  * @returns The active public key of the user.
  */
-export const getActivePublicKey = async (): Promise<string | undefined> => {
+export const getActivePublicKey = async ({ client }: GetActivePublicKeyParams = {}): Promise<string | undefined> => {
   try {
-    const connector = getClient()?.connector;
+    const connector = (client ?? getClient())?.connector;
     const activeKey = await connector?.getActivePublicKey();
 
     return activeKey;
@@ -1,12 +1,14 @@
-import { ConnectorNotLedgerError, getClient } from '@casperdash/usewallet-core';
+import { Client, ConnectorNotLedgerError, getClient } from '@casperdash/usewallet-core';
 import { CasperLedgerConnector } from '@casperdash/usewallet-core/types/casperLedgerConnector';
 
+type Params = { client?: Client };
+
 /**
  * It returns the active public key of the user's wallet
  * @returns The active public key of the user.
  */
-export const getLedgerAccountIndex = async (): Promise<string> => {
-  const connector = getClient()?.connector;
+export const getLedgerAccountIndex = async ({ client = getClient() }: Params = {}): Promise<string> => {
+  const connector = client?.connector;
 
   try {
     if (connector && connector.id !== 'ledger') {
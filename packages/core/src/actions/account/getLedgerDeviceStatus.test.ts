@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CasperDashConnector, Connector } from '@casperdash/usewallet-core/connectors';
+import { ConnectorNotLedgerError } from '@casperdash/usewallet-core/errors';
+import { createClient, getClient } from '@casperdash/usewallet-core/utils/client';
+
+import { getLedgerDeviceStatus } from './getLedgerDeviceStatus';
+
+describe('getLedgerDeviceStatus', () => {
+  const status = {
+    isDeviceConnected: true,
+    isDeviceLocked: false,
+    isAppOpen: true,
+    appName: 'Casper',
+    appVersion: '2.6.1',
+    requiredAppVersion: '2.6.0',
+    isAppVersionSupported: true,
+  };
+  const ledgerConnector = {
+    id: 'ledger',
+    getDeviceStatus: vi.fn(async () => Promise.resolve(status)),
+  } as unknown as Connector;
+
+  it('should return the status of the ledger connector before connecting', async () => {
+    createClient({ connectors: [new CasperDashConnector(), ledgerConnector] });
+
+    expect(await getLedgerDeviceStatus()).toEqual(status);
+  });
+
+  it('should return the status of the active ledger connector', async () => {
+    const client = createClient({ connectors: [] });
+    client.setState({ connectors: [], connector: ledgerConnector });
+
+    expect(await getLedgerDeviceStatus({ client: getClient() })).toEqual(status);
+  });
+
+  it('should throw ConnectorNotLedgerError when there is no ledger connector', async () => {
+    createClient({ connectors: [new CasperDashConnector()] });
+
+    await expect(getLedgerDeviceStatus()).rejects.toThrowError(ConnectorNotLedgerError);
+  });
+});
@@ -0,0 +1,21 @@
+import { Client, Connector, ConnectorNotLedgerError, getClient } from '@casperdash/usewallet-core';
+import { CasperLedgerConnector, LedgerDeviceStatus } from '@casperdash/usewallet-core/types/casperLedgerConnector';
+
+type Params = { client?: Client };
+
+/**
+ * It returns the status of the Ledger device and of its Casper app, using the active connector or,
+ * before connecting, the Ledger connector of the client
+ * @returns The status of the device.
+ */
+export const getLedgerDeviceStatus = async ({ client = getClient() }: Params = {}): Promise<LedgerDeviceStatus> => {
+  const connector = client.connector?.id === 'ledger'
+    ? client.connector
+    : client.connectors?.find((item: Connector) => item.id === 'ledger');
+
+  if (!connector) {
+    throw new ConnectorNotLedgerError();
+  }
+
+  return (connector as unknown as CasperLedgerConnector).getDeviceStatus();
+};
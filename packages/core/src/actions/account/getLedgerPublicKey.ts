@@ -1,14 +1,14 @@
-import { ConnectorNotLedgerError, getClient } from '@casperdash/usewallet-core';
+import { Client, ConnectorNotLedgerError, getClient } from '@casperdash/usewallet-core';
 import { CasperLedgerConnector } from '@casperdash/usewallet-core/types/casperLedgerConnector';
 
-type Params = { index?: string };
+type Params = { index?: string; client?: Client };
 
 /**
  * It returns the active public key of the user's wallet
  * @returns The active public key of the user.
  */
-export const getLedgerPublicKey = async ({ index = '0' }: Params = { index: '0' }): Promise<string | undefined> => {
-  const connector = getClient()?.connector;
+export const getLedgerPublicKey = async ({ index = '0', client = getClient() }: Params = { index: '0' }): Promise<string | undefined> => {
+  const connector = client?.connector;
 
   try {
     if (connector && connector.id !== 'ledger') {
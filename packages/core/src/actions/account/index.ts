@@ -7,3 +7,6 @@ export * from './getAccount';
 export * from './getLedgerAccountIndex';
 export * from './setLedgerAccountIndex';
 export * from './getLedgerPublicKey';
+export * from './getLedgerDeviceStatus';
+export * from './verifyLedgerAddress';
+export * from './discoverLedgerAccounts';
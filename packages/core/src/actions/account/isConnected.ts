@@ -1,12 +1,17 @@
-import { getClient } from '@casperdash/usewallet-core/utils/client';
+import { Client, getClient } from '@casperdash/usewallet-core/utils/client';
+
+export type IsConnectedParams = {
+  client?: Client;
+};
 
 /**
  * It returns a boolean value that indicates whether the client is connected to the server
+ * @param {IsConnectedParams}  - `client` - the client to read from, defaults to the global client
  * @returns A boolean value.
  */
-export const isConnected = async (): Promise<boolean> => {
+export const isConnected = async ({ client = getClient() }: IsConnectedParams = {}): Promise<boolean> => {
   /* Getting the connector from the client. */
-  const connector = getClient()?.connector;
+  const connector = client?.connector;
 
   try {
     /* Checking if the client is connected to the server. */
@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CasperDashConnector, Connector } from '@casperdash/usewallet-core/connectors';
+import { ConnectorNotLedgerError } from '@casperdash/usewallet-core/errors';
+import { Client, createClient } from '@casperdash/usewallet-core/utils/client';
+import { getLedgerPath } from '@casperdash/usewallet-core/utils/ledger';
+
+import { getAccount } from './getAccount';
+import { setLedgerAccountIndex } from './setLedgerAccountIndex';
+
+describe('setLedgerAccountIndex', () => {
+  const ledgerConnector = {
+    id: 'ledger',
+    resolvePath: vi.fn((index: string) => getLedgerPath(index)),
+    getPublicKey: vi.fn(async () => Promise.resolve('0202a')),
+    setAccountIndex: vi.fn(),
+  };
+  let client: Client;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    client = createClient({ connectors: [] });
+    client.setState({ connectors: [], connector: ledgerConnector as unknown as Connector });
+  });
+
+  it('should select the account at the index', async () => {
+    await setLedgerAccountIndex({ index: '3' });
+
+    expect(client.data).toEqual({ ledgerAccountIndex: '3', ledgerAccountPath: 'm/44\'/506\'/0\'/0/3', activeKey: '0202a' });
+    expect(ledgerConnector.setAccountIndex).toHaveBeenCalledWith('3', 'm/44\'/506\'/0\'/0/3', '0202a');
+  });
+
+  it('should leave the index undefined for an account selected by its path', async () => {
+    const path = 'm/44\'/506\'/7\'/0/0';
+
+    await setLedgerAccountIndex({ path });
+
+    expect(client.data).toEqual({ ledgerAccountIndex: undefined, ledgerAccountPath: path, activeKey: '0202a' });
+    expect(ledgerConnector.getPublicKey).toHaveBeenCalledWith(path);
+    expect(ledgerConnector.setAccountIndex).toHaveBeenCalledWith(undefined, path, '0202a');
+    expect(getAccount()?.ledgerAccountIndex).toBeUndefined();
+  });
+
+  it('should throw ConnectorNotLedgerError when the active connector is not ledger', async () => {
+    console.error = vi.fn();
+    client.setState({ connectors: [], connector: new CasperDashConnector() });
+
+    await expect(setLedgerAccountIndex({ index: '1' })).rejects.toThrowError(ConnectorNotLedgerError);
+  });
+});
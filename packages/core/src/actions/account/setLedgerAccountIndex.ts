@@ -1,28 +1,43 @@
 import { ConnectorNotLedgerError } from '@casperdash/usewallet-core/errors/ConnectorNotLedgerError';
-import { StateParams, getClient } from '@casperdash/usewallet-core/utils/client';
+import { Client, StateParams, getClient } from '@casperdash/usewallet-core/utils/client';
+import { CasperLedgerConnector } from '@casperdash/usewallet-core/types/casperLedgerConnector';
 
-type Params = { index?: string };
+type Params = { index?: string; path?: string; pathTemplate?: string; client?: Client };
 
-export const setLedgerAccountIndex = async ({ index = '0' }: Params = { index: '0' }): Promise<void> => {
+/**
+ * It selects the Ledger account at `index`, derived with `pathTemplate` (the `pathTemplate` option of the
+ * connector by default) unless a full derivation `path` is given, and keeps the path in the client state.
+ * A `path` given without `index` leaves the index of the account undefined.
+ */
+export const setLedgerAccountIndex = async ({
+  index,
+  path,
+  pathTemplate,
+  client: clientParam,
+}: Params = {}): Promise<void> => {
   try {
-    const client = getClient();
+    const client = clientParam ?? getClient();
     const { connector } = client;
     if (!connector || connector && connector.id !== 'ledger') {
       throw new ConnectorNotLedgerError();
     }
+    const ledgerConnector = connector as unknown as CasperLedgerConnector;
+    const accountIndex = index ?? (path ? undefined : '0');
+    const accountPath = path ?? ledgerConnector.resolvePath(accountIndex ?? '0', pathTemplate);
 
-    const publicKey = await (connector as any).getPublicKey(index);
+    const publicKey = await ledgerConnector.getPublicKey(accountPath);
 
     client.setState((oldState: StateParams) => ({
       ...oldState,
       data: {
         ...oldState.data,
-        ledgerAccountIndex: index,
+        ledgerAccountIndex: accountIndex,
+        ledgerAccountPath: accountPath,
         activeKey: publicKey,
       },
     }));
 
-    (connector as any).setAccountIndex(index);
+    ledgerConnector.setAccountIndex(accountIndex, accountPath, publicKey);
   } catch (error) {
     console.error(error);
 
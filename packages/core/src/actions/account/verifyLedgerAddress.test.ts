@@ -0,0 +1,27 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CasperDashConnector, Connector } from '@casperdash/usewallet-core/connectors';
+import { ConnectorNotLedgerError } from '@casperdash/usewallet-core/errors';
+import { createClient } from '@casperdash/usewallet-core/utils/client';
+
+import { verifyLedgerAddress } from './verifyLedgerAddress';
+
+describe('verifyLedgerAddress', () => {
+  it('should show the address of the given index on the device', async () => {
+    const ledgerConnector = {
+      id: 'ledger',
+      verifyAddress: vi.fn(async () => Promise.resolve('0202a')),
+    } as unknown as Connector;
+    const client = createClient({ connectors: [] });
+    client.setState({ connectors: [], connector: ledgerConnector });
+
+    expect(await verifyLedgerAddress({ index: '3' })).toEqual('0202a');
+    expect((ledgerConnector as unknown as { verifyAddress: () => void }).verifyAddress).toHaveBeenCalledWith('3');
+  });
+
+  it('should throw ConnectorNotLedgerError when the active connector is not ledger', async () => {
+    const client = createClient({ connectors: [] });
+    client.setState({ connectors: [], connector: new CasperDashConnector() });
+
+    await expect(verifyLedgerAddress()).rejects.toThrowError(ConnectorNotLedgerError);
+  });
+});
@@ -0,0 +1,17 @@
+import { Client, ConnectorNotLedgerError, getClient } from '@casperdash/usewallet-core';
+import { CasperLedgerConnector } from '@casperdash/usewallet-core/types/casperLedgerConnector';
+
+type Params = { index?: string; client?: Client };
+
+/**
+ * It shows the address of the account on the Ledger device, and resolves once the user approves it there
+ * @returns The public key of the account.
+ */
+export const verifyLedgerAddress = async ({ index = '0', client = getClient() }: Params = { index: '0' }): Promise<string> => {
+  const connector = client?.connector;
+  if (!connector || connector.id !== 'ledger') {
+    throw new ConnectorNotLedgerError();
+  }
+
+  return (connector as unknown as CasperLedgerConnector).verifyAddress(index);
+};
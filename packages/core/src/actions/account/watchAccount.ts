@@ -1,7 +1,7 @@
 import { shallow } from 'zustand/shallow';
 import { Connector } from '@casperdash/usewallet-core/connectors/base';
 import { StatusEnum } from '@casperdash/usewallet-core/enums';
-import { getClient, StateParams } from '@casperdash/usewallet-core/utils/client';
+import { Client, getClient, StateParams } from '@casperdash/usewallet-core/utils/client';
 
 import { Account, getAccount } from './getAccount';
 
@@ -15,6 +15,7 @@ export type WatchAccountSelectorParams = {
   status?: StatusEnum;
   isConnected?: boolean;
   ledgerAccountIndex?: string;
+  ledgerAccountPath?: string;
 };
 
 export type WatchAccountOptions = {
@@ -23,6 +24,7 @@ export type WatchAccountOptions = {
     connector,
     status,
   }: WatchAccountSelectorParams) => unknown;
+  client?: Client;
 };
 
 /**
@@ -35,14 +37,13 @@ export type WatchAccountOptions = {
  */
 export const watchAccount = (
   callback: (account: Account | null) => void,
-  { selector = (params: WatchAccountSelectorParams) => params } : WatchAccountOptions = {}): () => void => {
-  const client = getClient();
+  { selector = (params: WatchAccountSelectorParams) => params, client = getClient() } : WatchAccountOptions = {}): () => void => {
 
   /**
    * It takes a callback function as an argument, and then calls that callback function with the result
    * of another function as an argument
    */
-  const handleOnChange = () => callback(getAccount());
+  const handleOnChange = () => callback(getAccount({ client }));
   const unsubscribe = client.subscribe(
     ({ data, connector, status }: StateParams) => {
       return selector?.({
@@ -50,7 +51,8 @@ export const watchAccount = (
         publicKey: data?.activeKey,
         status,
         connector,
-        ledgerAccountIndex: data?.ledgerAccountIndex || '0',
+        ledgerAccountIndex: data?.ledgerAccountIndex ?? (data?.ledgerAccountPath ? undefined : '0'),
+        ledgerAccountPath: data?.ledgerAccountPath,
       });
     },
     handleOnChange,
@@ -0,0 +1,46 @@
+import { describe, expect, it, beforeEach } from 'vitest';
+import { CasperDashWebConnector, CasperWalletConnector, LocalKeyConnector } from '@casperdash/usewallet-core/connectors';
+import { Client, createClient, getClient, StateParams } from '@casperdash/usewallet-core/utils/client';
+
+import { getConnectorCapabilities } from './getConnectorCapabilities';
+
+describe('getConnectorCapabilities', () => {
+  beforeEach(() => {
+    createClient({
+      connectors: [new CasperWalletConnector(), new CasperDashWebConnector()],
+    });
+  });
+
+  it('should return the capabilities of the connector with the given id', () => {
+    expect(getConnectorCapabilities({ id: 'casperDashWeb' })).toEqual({
+      signDeploy: true,
+      signMessage: true,
+      wasmDeploys: true,
+      activeKeyEvents: false,
+      lockEvents: false,
+      multipleAccounts: false,
+      getVersion: false,
+      transactionV1: false,
+    });
+    expect(getConnectorCapabilities({ id: 'casperWallet' })?.lockEvents).toBe(true);
+  });
+
+  it('should return the capabilities of the active connector when no id is given', () => {
+    const connector = new LocalKeyConnector();
+    getClient().setState((x: StateParams) => ({ ...x, connector }));
+
+    expect(getConnectorCapabilities()).toBe(connector.capabilities);
+  });
+
+  it('should return undefined when the connector is not found', () => {
+    expect(getConnectorCapabilities({ id: 'unknown' })).toBeUndefined();
+    expect(getConnectorCapabilities()).toBeUndefined();
+  });
+
+  it('should read the connectors of the given client', () => {
+    const client = new Client({ connectors: [new LocalKeyConnector()] });
+
+    expect(getConnectorCapabilities({ id: 'localKey', client })?.activeKeyEvents).toBe(true);
+    expect(getConnectorCapabilities({ id: 'localKey' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,25 @@
+import { Connector, ConnectorCapabilities } from '@casperdash/usewallet-core/connectors/base';
+import { Client, getClient } from '@casperdash/usewallet-core/utils/client';
+
+export type GetConnectorCapabilitiesParams = {
+  id?: string;
+  client?: Client;
+};
+
+/**
+ * It returns the capabilities of the connector with the given id, or of the active connector when no id is given
+ * @param {GetConnectorCapabilitiesParams}  - `id` - the id of the connector, `client` - defaults to the global client
+ * @returns The capabilities of the connector, or undefined if the connector is not found.
+ */
+export const getConnectorCapabilities = (
+  { id, client = getClient() }: GetConnectorCapabilitiesParams = {},
+): ConnectorCapabilities | undefined => {
+  if (!id) {
+    return client.connector?.capabilities;
+  }
+
+  const connector = [client.connector, ...client.connectors ?? []]
+    .find((item?: Connector) => item?.id === id);
+
+  return connector?.capabilities;
+};
@@ -0,0 +1,17 @@
+import { DiscoveredWalletConnector } from '@casperdash/usewallet-core/connectors/discoveredWallet';
+import { Client, getClient } from '@casperdash/usewallet-core/utils/client';
+
+export type GetDiscoveredWalletsParams = {
+  client?: Client;
+};
+
+/**
+ * It returns the connectors of the wallets that announced themselves
+ * @param {GetDiscoveredWalletsParams}  - `client` - defaults to the global client
+ * @returns The connectors of the discovered wallets.
+ */
+export const getDiscoveredWallets = (
+  { client = getClient() }: GetDiscoveredWalletsParams = {},
+): DiscoveredWalletConnector[] => {
+  return client.discoveredWallets ?? [];
+};
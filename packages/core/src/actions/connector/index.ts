@@ -0,0 +1,3 @@
+export * from './getConnectorCapabilities';
+export * from './getDiscoveredWallets';
+export * from './watchDiscoveredWallets';
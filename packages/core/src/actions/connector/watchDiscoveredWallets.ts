@@ -0,0 +1,22 @@
+import { DiscoveredWalletConnector } from '@casperdash/usewallet-core/connectors/discoveredWallet';
+import { Client, getClient, StateParams } from '@casperdash/usewallet-core/utils/client';
+
+export type WatchDiscoveredWalletsOptions = {
+  client?: Client;
+};
+
+/**
+ * It calls the callback whenever a wallet announces itself
+ * @param callback - (wallets: DiscoveredWalletConnector[]) => void
+ * @param {WatchDiscoveredWalletsOptions}  - `client` - defaults to the global client
+ * @returns A function that can be called to unsubscribe.
+ */
+export const watchDiscoveredWallets = (
+  callback: (wallets: DiscoveredWalletConnector[]) => void,
+  { client = getClient() }: WatchDiscoveredWalletsOptions = {},
+): () => void => {
+  return client.subscribe(
+    ({ discoveredWallets }: StateParams) => discoveredWallets,
+    (discoveredWallets?: DiscoveredWalletConnector[]) => callback(discoveredWallets ?? []),
+  );
+};
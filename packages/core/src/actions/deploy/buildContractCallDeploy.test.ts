@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { CLValueBuilder, DeployUtil, Keys } from 'casper-js-sdk';
+
+import { DeployTypes } from '../../enums/deployTypes';
+import { getDeployType } from '../../utils/deploy';
+
+import { buildContractCallDeploy } from './buildContractCallDeploy';
+
+describe('buildContractCallDeploy', () => {
+  const publicKey = Keys.Ed25519.new().publicKey.toHex();
+  const contractHash = 'ab'.repeat(32);
+
+  it.each([
+    ['a hash', contractHash],
+    ['a prefixed hash', `hash-${contractHash}`],
+  ])('should build a contract call deploy of %s', (_case: string, hash: string) => {
+    const { deploy } = buildContractCallDeploy({
+      publicKey,
+      chainName: 'casper-test',
+      contractHash: hash,
+      entryPoint: 'transfer',
+      args: { amount: CLValueBuilder.u256(10) },
+      paymentAmount: 3_000_000_000,
+    });
+    const parsed = DeployUtil.deployFromJson({ deploy }).unwrap();
+
+    expect(getDeployType(parsed)).toBe(DeployTypes.CONTRACT_CALL);
+    expect(parsed.session.storedContractByHash?.entryPoint).toBe('transfer');
+    expect(parsed.session.storedContractByHash?.getArgByName('amount')?.value().toString()).toBe('10');
+    expect(parsed.payment.getArgByName('amount')?.value().toString()).toBe('3000000000');
+  });
+});
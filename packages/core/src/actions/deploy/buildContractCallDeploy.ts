@@ -0,0 +1,36 @@
+import { DeployUtil } from 'casper-js-sdk';
+import {
+  buildDeploy,
+  BuildDeployParams,
+  BuildDeployResult,
+  DeployArgs,
+  toHashBytes,
+  toRuntimeArgs,
+} from '@casperdash/usewallet-core/utils/deploy';
+
+export type BuildContractCallDeployParams = BuildDeployParams & {
+  /* The hex contract hash, with or without its `hash-` prefix */
+  contractHash: string;
+  entryPoint: string;
+  args?: DeployArgs;
+};
+
+/**
+ * It builds a deploy calling an entry point of a contract by its hash.
+ * @param {BuildContractCallDeployParams}  - The `contractHash`, `entryPoint`, `args` and the deploy params.
+ * @returns The deploy, in the shape `sign()` expects.
+ */
+export const buildContractCallDeploy = ({
+  contractHash,
+  entryPoint,
+  args,
+  ...params
+}: BuildContractCallDeployParams): BuildDeployResult => {
+  const session = DeployUtil.ExecutableDeployItem.newStoredContractByHash(
+    toHashBytes(contractHash),
+    entryPoint,
+    toRuntimeArgs(args),
+  );
+
+  return buildDeploy({ ...params, session });
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { CLValueBuilder, DeployUtil, encodeBase16, Keys, RuntimeArgs } from 'casper-js-sdk';
+
+import { DeployTypes } from '../../enums/deployTypes';
+import { InvalidHashError } from '../../errors';
+import { getDeployType } from '../../utils/deploy';
+
+import { buildPackageCallDeploy } from './buildPackageCallDeploy';
+
+describe('buildPackageCallDeploy', () => {
+  const publicKey = Keys.Ed25519.new().publicKey.toHex();
+
+  it('should build a contract package call deploy', () => {
+    const { deploy } = buildPackageCallDeploy({
+      publicKey,
+      chainName: 'casper-test',
+      contractPackageHash: `hash-${'cd'.repeat(32)}`,
+      version: 2,
+      entryPoint: 'mint',
+      args: RuntimeArgs.fromMap({ count: CLValueBuilder.u64(1) }),
+      paymentAmount: 5_000_000_000,
+    });
+    const parsed = DeployUtil.deployFromJson({ deploy }).unwrap();
+
+    expect(getDeployType(parsed)).toBe(DeployTypes.CONTRACT_PACKAGE_CALL);
+    expect(parsed.session.storedVersionedContractByHash?.entryPoint).toBe('mint');
+    expect(parsed.session.storedVersionedContractByHash?.version).toBe(2);
+    expect(parsed.session.storedVersionedContractByHash?.getArgByName('count')?.value().toString()).toBe('1');
+  });
+
+  it('should accept the contract-package-wasm prefix of the node JSON', () => {
+    const { deploy } = buildPackageCallDeploy({
+      publicKey,
+      chainName: 'casper-test',
+      contractPackageHash: `contract-package-wasm${'cd'.repeat(32)}`,
+      entryPoint: 'mint',
+      paymentAmount: 5_000_000_000,
+    });
+    const parsed = DeployUtil.deployFromJson({ deploy }).unwrap();
+
+    expect(encodeBase16(parsed.session.storedVersionedContractByHash?.hash as Uint8Array)).toBe('cd'.repeat(32));
+  });
+
+  it('should throw InvalidHashError when the hash is not 32 bytes of hex', () => {
+    expect(() => buildPackageCallDeploy({
+      publicKey,
+      chainName: 'casper-test',
+      contractPackageHash: 'hash-not-a-hash',
+      entryPoint: 'mint',
+      paymentAmount: 5_000_000_000,
+    })).toThrowError(InvalidHashError);
+  });
+});
@@ -0,0 +1,40 @@
+import { DeployUtil } from 'casper-js-sdk';
+import {
+  buildDeploy,
+  BuildDeployParams,
+  BuildDeployResult,
+  DeployArgs,
+  toHashBytes,
+  toRuntimeArgs,
+} from '@casperdash/usewallet-core/utils/deploy';
+
+export type BuildPackageCallDeployParams = BuildDeployParams & {
+  /* The hex contract package hash, with or without its `hash-` prefix */
+  contractPackageHash: string;
+  /* The version of the contract in the package, the latest by default */
+  version?: number | null;
+  entryPoint: string;
+  args?: DeployArgs;
+};
+
+/**
+ * It builds a deploy calling an entry point of a version of a contract package by its hash.
+ * @param {BuildPackageCallDeployParams}  - The `contractPackageHash`, `version`, `entryPoint`, `args` and the deploy params.
+ * @returns The deploy, in the shape `sign()` expects.
+ */
+export const buildPackageCallDeploy = ({
+  contractPackageHash,
+  version = null,
+  entryPoint,
+  args,
+  ...params
+}: BuildPackageCallDeployParams): BuildDeployResult => {
+  const session = DeployUtil.ExecutableDeployItem.newStoredVersionContractByHash(
+    toHashBytes(contractPackageHash),
+    version,
+    entryPoint,
+    toRuntimeArgs(args),
+  );
+
+  return buildDeploy({ ...params, session });
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { DeployUtil, Keys } from 'casper-js-sdk';
+
+import { DeployTypes } from '../../enums/deployTypes';
+import { ChainNameNotFoundError } from '../../errors';
+import { Client } from '../../utils/client';
+import { DEFAULT_DEPLOY_TTL, getDeployType } from '../../utils/deploy';
+
+import { buildTransferDeploy, DEFAULT_TRANSFER_PAYMENT_AMOUNT } from './buildTransferDeploy';
+
+describe('buildTransferDeploy', () => {
+  const publicKey = Keys.Ed25519.new().publicKey.toHex();
+  const recipientPublicKey = Keys.Ed25519.new().publicKey.toHex();
+  const client = { chainName: 'casper-test' } as Client;
+
+  it('should build a transfer deploy with the chain name of the client', () => {
+    const { deploy } = buildTransferDeploy({
+      publicKey,
+      recipientPublicKey,
+      amount: 2_500_000_000,
+      transferId: 42,
+      client,
+    });
+    const parsed = DeployUtil.deployFromJson({ deploy }).unwrap();
+
+    expect(getDeployType(parsed)).toBe(DeployTypes.TRANSFER);
+    expect(parsed.header.chainName).toBe('casper-test');
+    expect(parsed.header.ttl).toBe(DEFAULT_DEPLOY_TTL);
+    expect(parsed.header.gasPrice).toBe(1);
+    expect(parsed.header.account?.toHex()).toBe(publicKey);
+    expect(parsed.payment.getArgByName('amount')?.value().toString()).toBe(`${DEFAULT_TRANSFER_PAYMENT_AMOUNT}`);
+    expect(parsed.session.getArgByName('amount')?.value().toString()).toBe('2500000000');
+    expect(parsed.session.getArgByName('id')?.value().unwrap().value().toString()).toBe('42');
+  });
+
+  it('should prefer the chain name and deploy params', () => {
+    const { deploy } = buildTransferDeploy({
+      publicKey,
+      recipientPublicKey,
+      amount: '2500000000',
+      chainName: 'casper',
+      ttl: 60_000,
+      gasPrice: 2,
+      client,
+    });
+    const { header } = DeployUtil.deployFromJson({ deploy }).unwrap();
+
+    expect(header.chainName).toBe('casper');
+    expect(header.ttl).toBe(60_000);
+    expect(header.gasPrice).toBe(2);
+  });
+
+  it('should throw ChainNameNotFoundError without a chain name', () => {
+    expect(() => buildTransferDeploy({
+      publicKey,
+      recipientPublicKey,
+      amount: 2_500_000_000,
+      client: {} as Client,
+    })).toThrow(ChainNameNotFoundError);
+  });
+});
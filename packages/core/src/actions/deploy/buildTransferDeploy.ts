@@ -0,0 +1,40 @@
+import { CLPublicKey, DeployUtil } from 'casper-js-sdk';
+import {
+  buildDeploy,
+  BuildDeployParams,
+  BuildDeployResult,
+  DeployAmount,
+} from '@casperdash/usewallet-core/utils/deploy';
+
+export type BuildTransferDeployParams = Omit<BuildDeployParams, 'paymentAmount'> & {
+  /* The hex public key of the recipient */
+  recipientPublicKey: string;
+  amount: DeployAmount;
+  transferId?: DeployAmount;
+  paymentAmount?: DeployAmount;
+};
+
+/* The cost of a native transfer, 0.1 CSPR */
+export const DEFAULT_TRANSFER_PAYMENT_AMOUNT = 100_000_000;
+
+/**
+ * It builds a native CSPR transfer deploy.
+ * @param {BuildTransferDeployParams}  - The `recipientPublicKey`, the `amount` in motes and the deploy params.
+ * @returns The deploy, in the shape `sign()` expects.
+ */
+export const buildTransferDeploy = ({
+  recipientPublicKey,
+  amount,
+  transferId = 0,
+  paymentAmount = DEFAULT_TRANSFER_PAYMENT_AMOUNT,
+  ...params
+}: BuildTransferDeployParams): BuildDeployResult => {
+  const session = DeployUtil.ExecutableDeployItem.newTransfer(
+    amount.toString(),
+    CLPublicKey.fromHex(recipientPublicKey),
+    null,
+    transferId.toString(),
+  );
+
+  return buildDeploy({ ...params, session, paymentAmount });
+};
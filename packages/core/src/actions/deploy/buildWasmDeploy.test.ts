@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { CLValueBuilder, DeployUtil, Keys } from 'casper-js-sdk';
+
+import { DeployTypes } from '../../enums/deployTypes';
+import { getDeployType } from '../../utils/deploy';
+
+import { buildWasmDeploy } from './buildWasmDeploy';
+
+describe('buildWasmDeploy', () => {
+  const publicKey = Keys.Ed25519.new().publicKey.toHex();
+
+  it('should build a session code deploy', () => {
+    const wasm = new Uint8Array([0, 97, 115, 109]);
+    const { deploy } = buildWasmDeploy({
+      publicKey,
+      chainName: 'casper-test',
+      wasm,
+      args: { name: CLValueBuilder.string('token') },
+      paymentAmount: 100_000_000_000,
+    });
+    const parsed = DeployUtil.deployFromJson({ deploy }).unwrap();
+
+    expect(getDeployType(parsed)).toBe(DeployTypes.WASM);
+    expect(parsed.session.moduleBytes?.moduleBytes).toEqual(wasm);
+    expect(parsed.session.getArgByName('name')?.value()).toBe('token');
+  });
+});
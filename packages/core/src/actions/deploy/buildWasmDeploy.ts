@@ -0,0 +1,25 @@
+import { DeployUtil } from 'casper-js-sdk';
+import {
+  buildDeploy,
+  BuildDeployParams,
+  BuildDeployResult,
+  DeployArgs,
+  toRuntimeArgs,
+} from '@casperdash/usewallet-core/utils/deploy';
+
+export type BuildWasmDeployParams = BuildDeployParams & {
+  /* The compiled session code */
+  wasm: Uint8Array;
+  args?: DeployArgs;
+};
+
+/**
+ * It builds a deploy running session code, e.g. to install a contract.
+ * @param {BuildWasmDeployParams}  - The `wasm`, `args` and the deploy params.
+ * @returns The deploy, in the shape `sign()` expects.
+ */
+export const buildWasmDeploy = ({ wasm, args, ...params }: BuildWasmDeployParams): BuildDeployResult => {
+  const session = DeployUtil.ExecutableDeployItem.newModuleBytes(wasm, toRuntimeArgs(args));
+
+  return buildDeploy({ ...params, session });
+};
@@ -0,0 +1,6 @@
+export * from './buildTransferDeploy';
+export * from './buildContractCallDeploy';
+export * from './buildPackageCallDeploy';
+export * from './buildWasmDeploy';
+export * from './sendDeploy';
+export * from './waitForDeploy';
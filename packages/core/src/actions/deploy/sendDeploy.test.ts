@@ -0,0 +1,54 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DeployUtil, Keys } from 'casper-js-sdk';
+
+import { createRpcStandIn, RpcStandIn } from '../../../test';
+import { RpcUrlNotFoundError } from '../../errors';
+import { Client } from '../../utils/client';
+
+import { buildTransferDeploy } from './buildTransferDeploy';
+import { sendDeploy } from './sendDeploy';
+
+describe('sendDeploy', () => {
+  const keyPair = Keys.Ed25519.new();
+  const signedDeploy = DeployUtil.signDeploy(
+    DeployUtil.deployFromJson(buildTransferDeploy({
+      publicKey: keyPair.publicKey.toHex(),
+      recipientPublicKey: Keys.Ed25519.new().publicKey.toHex(),
+      amount: 2_500_000_000,
+      chainName: 'casper-test',
+    })).unwrap(),
+    keyPair,
+  );
+  const deployHash = Buffer.from(signedDeploy.hash).toString('hex');
+  let standIn: RpcStandIn;
+
+  beforeEach(async () => {
+    standIn = await createRpcStandIn({
+      account_put_deploy: () => ({ api_version: '1.5.6', deploy_hash: deployHash }),
+    });
+  });
+
+  afterEach(async () => {
+    await standIn.close();
+  });
+
+  it('should put the signed deploy returned by sign()', async () => {
+    await expect(sendDeploy({ deploy: DeployUtil.deployToJson(signedDeploy), rpcUrl: standIn.rpcUrl })).resolves.toBe(deployHash);
+
+    expect(standIn.calls).toEqual([{
+      method: 'account_put_deploy',
+      params: DeployUtil.deployToJson(signedDeploy),
+    }]);
+  });
+
+  it('should use the RPC URL of the client config', async () => {
+    const client = { rpcUrl: standIn.rpcUrl } as Client;
+
+    await expect(sendDeploy({ deploy: signedDeploy, client })).resolves.toBe(deployHash);
+  });
+
+  it('should throw RpcUrlNotFoundError without an RPC URL', async () => {
+    await expect(sendDeploy({ deploy: signedDeploy, client: {} as Client })).rejects.toThrow(RpcUrlNotFoundError);
+  });
+});
@@ -0,0 +1,24 @@
+import { CasperServiceByJsonRPC, DeployUtil } from 'casper-js-sdk';
+import { Deploy } from '@casperdash/usewallet-core/types/deploy';
+import { Client } from '@casperdash/usewallet-core/utils/client';
+import { getRpcUrl, toDeployUtilDeploy } from '@casperdash/usewallet-core/utils/deploy';
+
+export type SendDeployParams = {
+  /* The signed deploy, as returned by `sign()` */
+  deploy: Deploy | DeployUtil.Deploy;
+  /* The RPC URL of the client config by default */
+  rpcUrl?: string;
+  client?: Client;
+};
+
+/**
+ * It sends a signed deploy to the node with `account_put_deploy`.
+ * @param {SendDeployParams}  - The signed `deploy` and the `rpcUrl` of the node.
+ * @returns The hash of the deploy.
+ */
+export const sendDeploy = async ({ deploy, rpcUrl, client }: SendDeployParams): Promise<string> => {
+  const casperService = new CasperServiceByJsonRPC(getRpcUrl(rpcUrl, client));
+  const { deploy_hash: deployHash } = await casperService.deploy(toDeployUtilDeploy(deploy));
+
+  return deployHash;
+};
@@ -0,0 +1,98 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { createRpcStandIn, RpcError, RpcStandIn } from '../../../test';
+import { DeployStatusEnum } from '../../enums/deployStatus';
+import { DeployTimeoutError } from '../../errors';
+
+import { waitForDeploy } from './waitForDeploy';
+
+describe('waitForDeploy', () => {
+  const deployHash = 'ab'.repeat(32);
+  const executionResult = (result: Record<string, unknown>) => ({
+    api_version: '1.5.6',
+    deploy: {},
+    execution_results: [{ block_hash: 'cd'.repeat(32), result }],
+  });
+  let standIn: RpcStandIn;
+
+  afterEach(async () => {
+    await standIn.close();
+  });
+
+  it('should poll until the deploy is executed', async () => {
+    let polls = 0;
+    standIn = await createRpcStandIn({
+      info_get_deploy: () => {
+        polls++;
+
+        return polls < 3
+          ? { api_version: '1.5.6', deploy: {}, execution_results: [] }
+          : executionResult({ Success: { cost: '100000000', transfers: [], effect: {} } });
+      },
+    });
+
+    await expect(waitForDeploy({ deployHash, rpcUrl: standIn.rpcUrl, pollInterval: 10 })).resolves.toEqual({
+      deployHash,
+      status: DeployStatusEnum.SUCCESS,
+      blockHash: 'cd'.repeat(32),
+      cost: '100000000',
+      errorMessage: undefined,
+    });
+    expect(standIn.calls).toHaveLength(3);
+    expect(standIn.calls[0]).toEqual({ method: 'info_get_deploy', params: { deploy_hash: deployHash } });
+  });
+
+  it('should resolve a failed execution with its error message and cost', async () => {
+    standIn = await createRpcStandIn({
+      info_get_deploy: () => executionResult({
+        Failure: { cost: '2500000000', error_message: 'User error: 65535', transfers: [], effect: {} },
+      }),
+    });
+
+    await expect(waitForDeploy({ deployHash, rpcUrl: standIn.rpcUrl })).resolves.toMatchObject({
+      status: DeployStatusEnum.FAILURE,
+      cost: '2500000000',
+      errorMessage: 'User error: 65535',
+    });
+  });
+
+  it('should retry the RPC errors', async () => {
+    let polls = 0;
+    standIn = await createRpcStandIn({
+      info_get_deploy: () => {
+        polls++;
+        if (polls === 1) {
+          throw new RpcError({ code: -32000, message: 'deploy not known' });
+        }
+
+        return executionResult({ Success: { cost: '100000000', transfers: [], effect: {} } });
+      },
+    });
+
+    await expect(waitForDeploy({ deployHash, rpcUrl: standIn.rpcUrl, pollInterval: 10 })).resolves.toMatchObject({
+      status: DeployStatusEnum.SUCCESS,
+    });
+    expect(standIn.calls).toHaveLength(2);
+  });
+
+  it('should throw the last RPC error when the node still fails after the timeout', async () => {
+    standIn = await createRpcStandIn({
+      info_get_deploy: () => {
+        throw new RpcError({ code: -32000, message: 'deploy not known' });
+      },
+    });
+
+    await expect(waitForDeploy({ deployHash, rpcUrl: standIn.rpcUrl, timeout: 50, pollInterval: 20 }))
+      .rejects.toMatchObject({ code: -32000 });
+  });
+
+  it('should throw DeployTimeoutError when the deploy is still pending', async () => {
+    standIn = await createRpcStandIn({
+      info_get_deploy: () => ({ api_version: '1.5.6', deploy: {}, execution_results: [] }),
+    });
+
+    await expect(waitForDeploy({ deployHash, rpcUrl: standIn.rpcUrl, timeout: 50, pollInterval: 20 }))
+      .rejects.toThrow(DeployTimeoutError);
+  });
+});
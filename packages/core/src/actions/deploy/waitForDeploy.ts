@@ -0,0 +1,57 @@
+import { CasperServiceByJsonRPC } from 'casper-js-sdk';
+import { DeployStatusEnum } from '@casperdash/usewallet-core/enums/deployStatus';
+import { DeployTimeoutError } from '@casperdash/usewallet-core/errors';
+import { Client } from '@casperdash/usewallet-core/utils/client';
+import { DeployResult, getRpcUrl, toDeployResult } from '@casperdash/usewallet-core/utils/deploy';
+
+export type WaitForDeployParams = {
+  deployHash: string;
+  /* The RPC URL of the client config by default */
+  rpcUrl?: string;
+  /* In milliseconds */
+  timeout?: number;
+  pollInterval?: number;
+  client?: Client;
+};
+
+export const DEFAULT_WAIT_FOR_DEPLOY_TIMEOUT = 5 * 60 * 1000;
+export const DEFAULT_WAIT_FOR_DEPLOY_POLL_INTERVAL = 5 * 1000;
+
+const sleep = async (ms: number) => new Promise((resolve: (value: unknown) => void) => { setTimeout(resolve, ms); });
+
+/**
+ * It polls the node with `info_get_deploy` until the deploy is executed in a block. A failed execution
+ * resolves with the `failure` status and the error message, it rejects with `DeployTimeoutError` when
+ * the deploy is still pending after `timeout`. The RPC errors are retried until `timeout` too, and the
+ * last one is thrown when the node still fails then.
+ * @param {WaitForDeployParams}  - The `deployHash`, the `rpcUrl` of the node, `timeout` and `pollInterval`.
+ * @returns The result of the deploy.
+ */
+export const waitForDeploy = async ({
+  deployHash,
+  rpcUrl,
+  timeout = DEFAULT_WAIT_FOR_DEPLOY_TIMEOUT,
+  pollInterval = DEFAULT_WAIT_FOR_DEPLOY_POLL_INTERVAL,
+  client,
+}: WaitForDeployParams): Promise<DeployResult> => {
+  const casperService = new CasperServiceByJsonRPC(getRpcUrl(rpcUrl, client));
+  const deadline = Date.now() + timeout;
+
+  for (;;) {
+    let rpcError: Error | undefined;
+    try {
+      const result = toDeployResult(deployHash, await casperService.getDeployInfo(deployHash));
+      if (result.status !== DeployStatusEnum.PENDING) {
+        return result;
+      }
+    } catch (error) {
+      // The node may be briefly unreachable, or not know a deploy sent to another node yet.
+      rpcError = error as Error;
+    }
+    if (Date.now() + pollInterval > deadline) {
+      throw rpcError ?? new DeployTimeoutError();
+    }
+
+    await sleep(pollInterval);
+  }
+};
@@ -1,4 +1,11 @@
-import { ConnectorNotFoundError } from '@casperdash/usewallet-core/errors';
+import {
+  ConnectorNotFoundError,
+  LedgerLockedError,
+  LedgerUserRejectedError,
+  RejectedSignDeployError,
+  UserRejectedRequestError,
+  WalletLockedError,
+} from '@casperdash/usewallet-core/errors';
 import { Client, getClient } from '@casperdash/usewallet-core/utils/client';
 import { describe, expect, it, vi, MockedFunction, afterEach } from 'vitest';
 
@@ -36,8 +43,10 @@ describe('sign', () => {
     expect(getClient).toHaveBeenCalled();
   });
 
-  it('should return undefined if the connector is not available', async () => {
-    (getClient as MockedFunction<typeof getClient>).mockReturnValue(undefined as unknown as Client);
+  it('should sign with the connector of the given client instead of the global one', async () => {
+    const connector = {
+      sign: vi.fn().mockResolvedValue({ deploy: {} }),
+    };
 
     const signParams: SignParams = {
       deploy: {
@@ -47,14 +56,29 @@ describe('sign', () => {
       targetPublicKeyHex: 'targetPublicKeyHex',
     };
 
-    const result = await sign(signParams);
+    const result = await sign({ ...signParams, client: { connector } as unknown as Client });
 
-    expect(result).toBeUndefined();
+    expect(result).toEqual({ deploy: {} });
+    expect(connector.sign).toHaveBeenCalledWith(signParams.deploy, signParams.signingPublicKeyHex, signParams.targetPublicKeyHex);
+    expect(getClient).not.toHaveBeenCalled();
+  });
+
+  it('should reject with ConnectorNotFoundError if the connector is not available', async () => {
+    (getClient as MockedFunction<typeof getClient>).mockReturnValue(undefined as unknown as Client);
+
+    const signParams: SignParams = {
+      deploy: {
+        deploy: {},
+      },
+      signingPublicKeyHex: 'signingPublicKeyHex',
+      targetPublicKeyHex: 'targetPublicKeyHex',
+    };
+
+    await expect(sign(signParams)).rejects.toBeInstanceOf(ConnectorNotFoundError);
     expect(getClient).toHaveBeenCalled();
   });
 
-  it('should log the error if the connector is available but the sign method throws an error', async () => {
-    console.error = vi.fn();
+  it('should rethrow the error if the connector is available but the sign method throws an error', async () => {
     const connector = {
       sign: vi.fn().mockRejectedValue(new ConnectorNotFoundError()),
     };
@@ -68,15 +92,57 @@ describe('sign', () => {
       targetPublicKeyHex: 'targetPublicKeyHex',
     };
 
+    await expect(sign(signParams)).rejects.toBeInstanceOf(ConnectorNotFoundError);
+    expect(connector.sign).toHaveBeenCalledWith(signParams.deploy, signParams.signingPublicKeyHex, signParams.targetPublicKeyHex);
+    expect(getClient).toHaveBeenCalled();
+  });
 
-    try {
-      await sign(signParams);
-    } catch (err) {
-      expect(err).toBeInstanceOf(ConnectorNotFoundError);
+  it.each([
+    ['a Ledger rejection', new LedgerUserRejectedError(), RejectedSignDeployError],
+    ['a locked Ledger device', new LedgerLockedError(), WalletLockedError],
+  ])('should normalize %s', async (_case: string, error: Error, ExpectedError: new () => Error) => {
+    const connector = {
+      sign: vi.fn().mockRejectedValue(error),
+    };
+
+    const promise = sign({
+      deploy: { deploy: {} },
+      signingPublicKeyHex: 'signingPublicKeyHex',
+      targetPublicKeyHex: 'targetPublicKeyHex',
+      client: { connector } as unknown as Client,
+    });
+
+    await expect(promise).rejects.toBeInstanceOf(ExpectedError);
+  });
+
+  it('should not classify the other errors by their message', async () => {
+    const error = new Error('Deploy rejected: the account is locked');
+    const connector = {
+      sign: vi.fn().mockRejectedValue(error),
+    };
 
-      expect(connector.sign).toHaveBeenCalledWith(signParams.deploy, signParams.signingPublicKeyHex, signParams.targetPublicKeyHex);
-      expect(getClient).toHaveBeenCalled();
-    }
+    const promise = sign({
+      deploy: { deploy: {} },
+      signingPublicKeyHex: 'signingPublicKeyHex',
+      targetPublicKeyHex: 'targetPublicKeyHex',
+      client: { connector } as unknown as Client,
+    });
+
+    await expect(promise).rejects.toBe(error);
+  });
+
+  it('should reject with a UserRejectedRequestError whatever the connector', async () => {
+    const connector = {
+      sign: vi.fn().mockRejectedValue(new RejectedSignDeployError()),
+    };
+
+    const promise = sign({
+      deploy: { deploy: {} },
+      signingPublicKeyHex: 'signingPublicKeyHex',
+      targetPublicKeyHex: 'targetPublicKeyHex',
+      client: { connector } as unknown as Client,
+    });
 
+    await expect(promise).rejects.toBeInstanceOf(UserRejectedRequestError);
   });
 });
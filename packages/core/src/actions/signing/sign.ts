@@ -1,30 +1,36 @@
-import { ConnectorNotFoundError } from '@casperdash/usewallet-core/errors';
+import { ConnectorNotFoundError, RejectedSignDeployError } from '@casperdash/usewallet-core/errors';
 import { Deploy } from '@casperdash/usewallet-core/types/deploy';
-import { getClient } from '@casperdash/usewallet-core/utils/client';
+import { Client, getClient } from '@casperdash/usewallet-core/utils/client';
+import { toSigningError } from '@casperdash/usewallet-core/utils/signing';
 import { JsonTypes } from 'typedjson';
 
 export type SignParams = {
   deploy: { deploy: JsonTypes };
   signingPublicKeyHex: string;
   targetPublicKeyHex: string;
+  client?: Client;
 };
 
-export type SignResult = Deploy | undefined;
+export type SignResult = Deploy;
 
 /**
- * It signs a deploy with the signing public key and the target public key
+ * It signs a deploy with the signing public key and the target public key. It rejects with
+ * `ConnectorNotFoundError` when no wallet is connected, `RejectedSignDeployError` (a
+ * `UserRejectedRequestError`) when the user rejects, `WalletLockedError` when the wallet is locked. The
+ * Ledger and local key connectors also reject with `SignerMismatchError` when they do not hold the signing
+ * key, the browser wallets leave that check to the wallet.
  * @param {SignParams}  - `deploy` - the deploy object to sign
- * @returns The signature of the deploy.
+ * @returns The signed deploy.
  */
-export const sign = async ({ deploy, signingPublicKeyHex, targetPublicKeyHex }: SignParams): Promise<SignResult> => {
-  const connector = getClient()?.connector;
+export const sign = async ({ deploy, signingPublicKeyHex, targetPublicKeyHex, client = getClient() }: SignParams): Promise<SignResult> => {
+  const connector = client?.connector;
+  if (!connector) {
+    throw new ConnectorNotFoundError();
+  }
 
   try {
-    if (!connector) {
-      throw new ConnectorNotFoundError();
-    }
-    return connector.sign(deploy, signingPublicKeyHex, targetPublicKeyHex);
+    return await connector.sign(deploy, signingPublicKeyHex, targetPublicKeyHex);
   } catch (error) {
-    console.error(error);
+    throw toSigningError(error, new RejectedSignDeployError());
   }
 };
@@ -1,4 +1,9 @@
-import { ConnectorNotFoundError } from '@casperdash/usewallet-core/errors';
+import {
+  ConnectorNotFoundError,
+  LedgerUserRejectedError,
+  RejectedSignMessageError,
+  UserRejectedRequestError,
+} from '@casperdash/usewallet-core/errors';
 import { Client, getClient } from '@casperdash/usewallet-core/utils/client';
 import { describe, expect, it, vi, afterEach, beforeEach, MockedFunction } from 'vitest';
 
@@ -30,25 +35,31 @@ describe('signMessage', () => {
     expect(connector.signMessage).toHaveBeenCalledWith(message, signingPublicKeyHex);
   });
 
-  it('should return undefined when an error occurs', async () => {
+  it('should rethrow the error of the connector', async () => {
     const message = 'message';
     const signingPublicKeyHex = 'signingPublicKeyHex';
-    connector.signMessage.mockImplementation(() => {
+    connector.signMessage.mockImplementationOnce(() => {
       throw new ConnectorNotFoundError();
     });
 
-    console.error = vi.fn();
-    const result = await signMessage({ message, signingPublicKeyHex });
-    expect(result).toBeUndefined();
+    await expect(signMessage({ message, signingPublicKeyHex })).rejects.toBeInstanceOf(ConnectorNotFoundError);
     expect(connector.signMessage).toHaveBeenCalledWith(message, signingPublicKeyHex);
-    expect(console.error).toHaveBeenCalledWith(new ConnectorNotFoundError());
   });
 
-  it('should return undefined when the connector is undefined', async () => {
-    vi.spyOn(getClient(), 'connector', 'get').mockReturnValue(undefined);
+  it('should reject with RejectedSignMessageError when the user rejects on the Ledger device', async () => {
+    connector.signMessage.mockImplementationOnce(() => {
+      throw new LedgerUserRejectedError();
+    });
+
+    const promise = signMessage({ message: 'message', signingPublicKeyHex: 'signingPublicKeyHex' });
+
+    await expect(promise).rejects.toBeInstanceOf(RejectedSignMessageError);
+    await expect(promise).rejects.toBeInstanceOf(UserRejectedRequestError);
+  });
 
+  it('should reject with ConnectorNotFoundError when the connector is undefined', async () => {
+    (getClient as MockedFunction<typeof getClient>).mockReturnValue({ connector: undefined } as unknown as Client);
 
-    const result = await signMessage({ message: '', signingPublicKeyHex: '' });
-    expect(result).toBeUndefined();
+    await expect(signMessage({ message: '', signingPublicKeyHex: '' })).rejects.toBeInstanceOf(ConnectorNotFoundError);
   });
 });
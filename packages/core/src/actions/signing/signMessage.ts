@@ -1,27 +1,37 @@
-import { ConnectorNotFoundError } from '@casperdash/usewallet-core/errors';
-import { getClient } from '@casperdash/usewallet-core/utils/client';
+import { ConnectorNotFoundError, RejectedSignMessageError } from '@casperdash/usewallet-core/errors';
+import { Client, getClient } from '@casperdash/usewallet-core/utils/client';
+import { toSigningError } from '@casperdash/usewallet-core/utils/signing';
 
 export type SignMessageParams = {
   message: string;
   signingPublicKeyHex: string;
+  client?: Client;
 };
 
-export type SignMessageResult = string | undefined;
+export type SignMessageResult = string;
 
 /**
- * It takes a message and a signing public key, and returns a signature
+ * It takes a message and a signing public key, and returns a signature. It rejects with
+ * `ConnectorNotFoundError` when no wallet is connected, `RejectedSignMessageError` (a
+ * `UserRejectedRequestError`) when the user rejects, `WalletLockedError` when the wallet is locked. The
+ * Ledger and local key connectors also reject with `SignerMismatchError` when they do not hold the signing
+ * key, the browser wallets leave that check to the wallet.
  * @param {SignMessageParams}  - `message` - the message to sign
  * @returns The result of the signMessage function.
  */
-export const signMessage = async ({ message, signingPublicKeyHex }: SignMessageParams): Promise<SignMessageResult> => {
-  const connector = getClient()?.connector;
+export const signMessage = async ({
+  message,
+  signingPublicKeyHex,
+  client = getClient(),
+}: SignMessageParams): Promise<SignMessageResult> => {
+  const connector = client?.connector;
+  if (!connector) {
+    throw new ConnectorNotFoundError();
+  }
 
   try {
-    if (!connector) {
-      throw new ConnectorNotFoundError();
-    }
     return await connector.signMessage(message, signingPublicKeyHex);
   } catch (error) {
-    console.error(error);
+    throw toSigningError(error, new RejectedSignMessageError());
   }
 };
@@ -8,6 +8,7 @@ export type ConnectorData<Provider = unknown> = {
   isConnected?: boolean;
   provider?: Provider;
   ledgerAccountIndex?: string;
+  ledgerAccountPath?: string;
 };
 
 export type SignedParams = {
@@ -16,11 +17,23 @@ export type SignedParams = {
   };
 };
 
+export type ConnectorCapabilities = {
+  signDeploy: boolean;
+  signMessage: boolean;
+  wasmDeploys: boolean;
+  activeKeyEvents: boolean;
+  lockEvents: boolean;
+  multipleAccounts: boolean;
+  getVersion: boolean;
+  transactionV1: boolean;
+};
+
 export interface ConnectorEvents {
   change(data: ConnectorData): void;
   connect(data: ConnectorData): void;
   message({ type, data }: { type: string; data?: unknown }): void;
   disconnect(): void;
+  unlock(data: { isUnlocked: boolean; isConnected?: boolean }): void;
   error(error: Error): void;
   approvedSign(data: SignedParams): void;
   rejectedSign(): void;
@@ -29,6 +42,18 @@ export interface ConnectorEvents {
 }
 
 export abstract class Connector<Provider = unknown, EventProvider = unknown, Options = unknown> extends EventEmitter<ConnectorEvents> {
+  /* What the wallet behind the connector can do, so the UI can hide the actions it can not perform */
+  public readonly capabilities: ConnectorCapabilities = {
+    signDeploy: true,
+    signMessage: true,
+    wasmDeploys: false,
+    activeKeyEvents: false,
+    lockEvents: false,
+    multipleAccounts: false,
+    getVersion: false,
+    transactionV1: false,
+  };
+
   protected readonly options: Options;
   public abstract readonly id: string;
   public abstract isReady: boolean;
@@ -46,6 +71,14 @@ export abstract class Connector<Provider = unknown, EventProvider = unknown, Opt
     return this.options;
   }
 
+  /**
+   * It returns the data the connector restored, merged into the state of the client once connected
+   * @returns The data of the connector.
+   */
+  public getData(): ConnectorData {
+    return {};
+  }
+
   public emit<T extends keyof ConnectorEvents>(event: T,
     ...args: EventEmitter.ArgumentMap<ConnectorEvents>[Extract<T, keyof ConnectorEvents>]): boolean {
     return super.emit(event, ...args);
@@ -58,10 +91,10 @@ export abstract class Connector<Provider = unknown, EventProvider = unknown, Opt
   public abstract disconnect(): Promise<void>;
   public abstract connect(): Promise<void>;
   public abstract getActivePublicKey(): Promise<string | undefined>;
-  public abstract signMessage(message:string, signingPublicKeyHex: string, options?: Record<string, unknown>): Promise<string | undefined>;
+  public abstract signMessage(message:string, signingPublicKeyHex: string, options?: Record<string, unknown>): Promise<string>;
   public abstract sign(
     deploy: { deploy: JsonTypes }, signingPublicKeyHex: string, targetPublicKeyHex: string, options?: Record<string, unknown>
-  ): Promise<Deploy | undefined>;
+  ): Promise<Deploy>;
 
   public abstract onConnected(event: CustomEventInit): void;
   public abstract onDisconnected(): void;
@@ -1,7 +1,9 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { describe, expect, it, beforeEach, vi, afterEach } from 'vitest';
 
-import { ConnectorNotFoundError } from '../errors';
+import {
+  ConnectorNotFoundError, RejectedSignDeployError, RejectedSignMessageError, WalletLockedError,
+} from '../errors';
 
 import { CasperDashConnector, CasperDashConnectorOptions } from './casperDash';
 
@@ -10,6 +12,7 @@ describe('CasperDashConnector', () => {
   let providerMock: Window['casperDashHelper'];
   let eventProviderMock: any;
   let options: CasperDashConnectorOptions;
+  const getProviderMock = () => providerMock as NonNullable<typeof providerMock>;
 
   beforeEach(() => {
     providerMock = {
@@ -252,6 +255,12 @@ describe('CasperDashConnector', () => {
         );
         expect(providerMock?.signMessage).toHaveBeenCalledTimes(1);
       });
+
+      it('should reject with RejectedSignMessageError when the user cancels', async () => {
+        vi.mocked(getProviderMock().signMessage).mockRejectedValueOnce(new Error('User Cancelled Signing'));
+
+        await expect(connector.signMessage('test-message', 'test-signing-public-key')).rejects.toBeInstanceOf(RejectedSignMessageError);
+      });
     });
 
     describe('sign', () => {
@@ -270,35 +279,55 @@ describe('CasperDashConnector', () => {
         );
         expect(providerMock?.sign).toHaveBeenCalledTimes(1);
       });
+
+      it('should reject with RejectedSignDeployError when the user cancels', async () => {
+        vi.mocked(getProviderMock().sign).mockRejectedValueOnce(new Error('User Cancelled Signing'));
+
+        await expect(connector.sign({ deploy: {} }, 'test-signing-public-key', 'test-target-public-key'))
+          .rejects.toBeInstanceOf(RejectedSignDeployError);
+      });
+
+      it('should reject with WalletLockedError when the wallet is locked', async () => {
+        vi.mocked(getProviderMock().sign).mockRejectedValueOnce(new Error('Please unlock the Signer to read key'));
+
+        await expect(connector.sign({ deploy: {} }, 'test-signing-public-key', 'test-target-public-key'))
+          .rejects.toBeInstanceOf(WalletLockedError);
+      });
+
+      it('should keep the other errors', async () => {
+        const error = new Error('Signing request rejected: the key is locked');
+        vi.mocked(getProviderMock().sign).mockRejectedValueOnce(error);
+
+        await expect(connector.sign({ deploy: {} }, 'test-signing-public-key', 'test-target-public-key')).rejects.toBe(error);
+      });
     });
 
     describe('onDisconnected', () => {
-      it('should dispatch a custom event with type "casper:disconnect"', () => {
-        const spy = vi.spyOn(window, 'dispatchEvent');
+      it('should emit a "disconnect" event', () => {
+        const listener = vi.fn();
+        connector.on('disconnect', listener);
         connector.onDisconnected();
-        expect(spy).toHaveBeenCalledWith(new CustomEvent('casper:disconnect'));
+        expect(listener).toHaveBeenCalledOnce();
       });
     });
 
     describe('onActiveKeyChanged', () => {
-      it('should dispatch a custom event with type "casper:change" and event details', () => {
-        const spy = vi.spyOn(window, 'dispatchEvent');
+      it('should emit a "change" event with event details', () => {
+        const listener = vi.fn();
+        connector.on('change', listener);
         const event = { detail: { activeKey: '12345', isConnected: true } };
         connector.onActiveKeyChanged(event);
-        expect(spy).toHaveBeenCalledWith(
-          new CustomEvent('casper:change', event),
-        );
+        expect(listener).toHaveBeenCalledWith({ activeKey: '12345', isConnected: true });
       });
     });
 
     describe('onConnected', () => {
-      it('should dispatch a custom event with type "casper:connect" and event details', () => {
-        const spy = vi.spyOn(window, 'dispatchEvent');
+      it('should emit a "connect" event with event details', () => {
+        const listener = vi.fn();
+        connector.on('connect', listener);
         const event = { detail: { activeKey: '12345', isConnected: true } };
         connector.onConnected(event);
-        expect(spy).toHaveBeenCalledWith(
-          new CustomEvent('casper:connect', event),
-        );
+        expect(listener).toHaveBeenCalledWith({ activeKey: '12345', isConnected: true });
       });
     });
   });
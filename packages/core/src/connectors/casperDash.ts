@@ -1,10 +1,16 @@
 /* eslint-disable @typescript-eslint/no-non-null-assertion */
 import { JsonTypes } from 'typedjson';
 
-import { ConnectorNotFoundError } from '../errors';
+import {
+  ConnectorNotFoundError,
+  RejectedSignDeployError,
+  RejectedSignMessageError,
+} from '../errors';
 import { Deploy } from '../types/deploy';
+import { maybeParseDetailEvent } from '../utils/parser';
+import { toSignerApiError } from '../utils/signing';
 
-import { Connector } from './base';
+import { Connector, ConnectorCapabilities } from './base';
 
 type CasperDashConnectorGlobal = {
   isConnected: () => Promise<boolean>;
@@ -33,6 +39,17 @@ export type CasperDashConnectorOptions = {
 /* It's a connector that uses the CasperDash browser extension to sign messages and deploys */
 export class CasperDashConnector extends Connector<CasperDashWindowGlobal, Window, CasperDashConnectorOptions> {
   public readonly id: string = 'casperDash';
+  public readonly capabilities: ConnectorCapabilities = {
+    signDeploy: true,
+    signMessage: true,
+    wasmDeploys: true,
+    activeKeyEvents: true,
+    lockEvents: false,
+    multipleAccounts: true,
+    getVersion: false,
+    transactionV1: false,
+  };
+
   public isReady: boolean = false;
 
   private eventProvider: Window | undefined;
@@ -55,6 +72,10 @@ export class CasperDashConnector extends Connector<CasperDashWindowGlobal, Windo
 
     const provider = options.getProvider();
     this.isReady = !!provider;
+
+    this.onDisconnected = this.onDisconnected.bind(this);
+    this.onActiveKeyChanged = this.onActiveKeyChanged.bind(this);
+    this.onConnected = this.onConnected.bind(this);
   }
 
   /**
@@ -154,7 +175,11 @@ export class CasperDashConnector extends Connector<CasperDashWindowGlobal, Windo
   public async signMessage(message: string, signingPublicKeyHex: string): Promise<string> {
     const provider = await this.getProvider();
 
-    return provider.signMessage(message, signingPublicKeyHex);
+    try {
+      return await provider.signMessage(message, signingPublicKeyHex);
+    } catch (error) {
+      throw toSignerApiError(error, new RejectedSignMessageError());
+    }
   }
 
   /**
@@ -170,16 +195,18 @@ export class CasperDashConnector extends Connector<CasperDashWindowGlobal, Windo
   public async sign(deploy: { deploy: JsonTypes }, signingPublicKeyHex: string, targetPublicKey: string): Promise<Deploy> {
     const provider = await this.getProvider();
 
-    return provider.sign(deploy, signingPublicKeyHex, targetPublicKey);
+    try {
+      return await provider.sign(deploy, signingPublicKeyHex, targetPublicKey);
+    } catch (error) {
+      throw toSignerApiError(error, new RejectedSignDeployError());
+    }
   }
 
   /**
-   * It emits a custom event called 'casper:disconnect'
+   * It emits a `disconnect` event to the client listening on this connector
    */
   public onDisconnected(): void {
-    const customEvent = new CustomEvent('casper:disconnect');
-    window.dispatchEvent(customEvent);
-    // this.emit('disconnect');
+    this.emit('disconnect');
   }
 
   /**
@@ -187,9 +214,7 @@ export class CasperDashConnector extends Connector<CasperDashWindowGlobal, Windo
    * @param event - CustomEventInit<{ activeKey: string; isConnected: boolean }>
    */
   public onActiveKeyChanged(event: CustomEventInit<{ activeKey: string; isConnected: boolean }>): void {
-    const customEvent = new CustomEvent('casper:change', event);
-    window.dispatchEvent(customEvent);
-    // this.emit('change', { isConnected: event.detail?.isConnected, activeKey: event.detail?.activeKey });
+    this.emit('change', maybeParseDetailEvent(event.detail));
   }
 
   /**
@@ -197,8 +222,6 @@ export class CasperDashConnector extends Connector<CasperDashWindowGlobal, Windo
    * @param event - CustomEventInit<{ activeKey: string; isConnected: boolean }>
    */
   public onConnected(event: CustomEventInit<{ activeKey: string; isConnected: boolean }>): void {
-    const customEvent = new CustomEvent('casper:connect', event);
-    window.dispatchEvent(customEvent);
-    // super.emit('connect', { isConnected: event.detail?.isConnected, activeKey: event.detail?.activeKey });
+    this.emit('connect', maybeParseDetailEvent(event.detail));
   }
 }
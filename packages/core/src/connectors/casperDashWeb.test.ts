@@ -0,0 +1,401 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, expect, it, beforeEach, vi, afterEach } from 'vitest';
+
+import {
+  PopupClosedError,
+  RejectedSignDeployError,
+  RejectedSignMessageError,
+  RequestTimeoutError,
+  UserRejectedRequestError,
+} from '../errors';
+
+import { CasperDashWebConnector } from './casperDashWeb';
+
+describe('CasperDashWebConnector', () => {
+  let connector: CasperDashWebConnector;
+  let popupMock: any;
+
+  const publicKey = `01${'a'.repeat(64)}`;
+
+  const reply = (data: Record<string, unknown>, { origin = 'https://wallet.casperdash.io', source = popupMock }: any = {}) => {
+    const event = new MessageEvent('message', { data, origin });
+    Object.defineProperty(event, 'source', { value: source });
+    window.dispatchEvent(event);
+  };
+
+  const lastRequest = () => popupMock.postMessage.mock.calls.at(-1)[0];
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    popupMock = {
+      closed: false,
+      postMessage: vi.fn(),
+      focus: vi.fn(),
+      close: vi.fn(),
+    };
+    vi.spyOn(window, 'open').mockReturnValue(popupMock);
+
+    connector = new CasperDashWebConnector({ options: { requestTimeout: 1000 } });
+    await connector.connect();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    await connector.disconnect();
+    vi.restoreAllMocks();
+    window.localStorage.clear();
+  });
+
+  describe('signMessage', () => {
+    it('should resolve each request with the reply carrying its id', async () => {
+      const first = connector.signMessage('first', 'publicKey');
+      const firstId = lastRequest().id;
+      const second = connector.signMessage('second', 'publicKey');
+      const secondId = lastRequest().id;
+
+      reply({ id: secondId, method: 'approvedSignMessage', params: { signedMessage: 'second signature' } });
+      reply({ id: firstId, method: 'approvedSignMessage', params: { signedMessage: 'first signature' } });
+
+      expect(await first).toEqual('first signature');
+      expect(await second).toEqual('second signature');
+    });
+
+    it('should reject with RejectedSignMessageError when the user rejects', async () => {
+      const promise = connector.signMessage('message', 'publicKey');
+      reply({ id: lastRequest().id, method: 'rejectedSignMessage' });
+
+      await expect(promise).rejects.toThrowError(RejectedSignMessageError);
+    });
+
+    it('should reject with RequestTimeoutError when the popup does not reply', async () => {
+      const promise = connector.signMessage('message', 'publicKey');
+
+      vi.advanceTimersByTime(1000);
+
+      await expect(promise).rejects.toThrowError(RequestTimeoutError);
+    });
+  });
+
+  describe('sign', () => {
+    it('should resolve with the deploy of the reply and ignore replies to other requests', async () => {
+      const promise = connector.sign({ deploy: {} }, 'publicKey', 'targetPublicKey');
+      const { id, method, params } = lastRequest();
+      expect(method).toEqual('sign');
+      expect(params).toEqual({
+        deploy: JSON.stringify({ deploy: {} }),
+        signingPublicKeyHex: 'publicKey',
+        targetPublicKeyHex: 'targetPublicKey',
+      });
+
+      reply({ id: id + 1, method: 'rejectedSign' });
+      reply({ id, method: 'approvedSign', params: { deploy: { hash: 'hash' } } });
+
+      expect(await promise).toEqual({ hash: 'hash' });
+    });
+
+    it('should reject with RejectedSignDeployError when the user rejects', async () => {
+      const promise = connector.sign({ deploy: {} }, 'publicKey', 'targetPublicKey');
+      reply({ id: lastRequest().id, method: 'rejectedSign' });
+
+      await expect(promise).rejects.toThrowError(RejectedSignDeployError);
+    });
+  });
+
+  describe('popup', () => {
+    it('should reject the pending requests when the popup is closed', async () => {
+      const promise = connector.signMessage('message', 'publicKey');
+
+      popupMock.closed = true;
+      vi.advanceTimersByTime(500);
+
+      await expect(promise).rejects.toThrowError(PopupClosedError);
+      await expect(promise).rejects.toThrowError(UserRejectedRequestError);
+    });
+
+    it('should throw PopupClosedError when there is no popup', async () => {
+      popupMock.closed = true;
+
+      await expect(connector.signMessage('message', 'publicKey')).rejects.toThrowError(PopupClosedError);
+    });
+
+    it('should stop listening to the popup after disconnect', async () => {
+      const onConnect = vi.fn();
+      connector.on('connect', onConnect);
+
+      await connector.disconnect();
+      reply({ id: 1, method: 'connected', params: { publicKey } });
+
+      expect(onConnect).not.toHaveBeenCalled();
+      expect(await connector.isConnected()).toBe(false);
+    });
+  });
+
+  describe('message validation', () => {
+    it('should connect on a valid reply of the popup', async () => {
+      const onConnect = vi.fn();
+      connector.on('connect', onConnect);
+
+      reply({ id: 1, method: 'connected', params: { publicKey } });
+
+      expect(onConnect).toHaveBeenCalledWith({ activeKey: publicKey, isConnected: true });
+      expect(await connector.isConnected()).toBe(true);
+    });
+
+    it('should ignore messages from another origin', async () => {
+      reply({ id: 1, method: 'connected', params: { publicKey } }, { origin: 'https://evil.example' });
+
+      expect(await connector.isConnected()).toBe(false);
+    });
+
+    it('should ignore messages from another window', async () => {
+      reply({ id: 1, method: 'connected', params: { publicKey } }, { source: window });
+
+      expect(await connector.isConnected()).toBe(false);
+    });
+
+    it('should ignore malformed payloads', async () => {
+      const promise = connector.sign({ deploy: {} }, 'publicKey', 'targetPublicKey');
+      const { id } = lastRequest();
+
+      reply({ id: 1, method: 'connected', params: { publicKey: 'not a public key' } });
+      reply({ id, method: 'approvedSign', params: { deploy: 'deploy' } });
+      reply({ id, method: 'approvedSign', params: { deploy: { hash: 'hash' } } });
+
+      expect(await connector.isConnected()).toBe(false);
+      expect(await promise).toEqual({ hash: 'hash' });
+    });
+
+    it('should trust the origins of self-hosted wallets', async () => {
+      await connector.disconnect();
+      connector = new CasperDashWebConnector({ options: { trustedOrigins: ['https://wallet.example.com/'] } });
+      await connector.connect();
+
+      reply({ id: 1, method: 'connected', params: { publicKey } }, { origin: 'https://wallet.example.com' });
+
+      expect(await connector.isConnected()).toBe(true);
+    });
+
+    it('should throw on an invalid trusted origin when created', () => {
+      expect(() => new CasperDashWebConnector({ options: { trustedOrigins: ['wallet.example.com'] } }))
+        .toThrowError('Invalid trusted origin: wallet.example.com');
+    });
+  });
+
+  describe('session', () => {
+    it('should restore the persisted session without opening the popup', async () => {
+      reply({ id: 1, method: 'connected', params: { publicKey } });
+      const openMock = vi.mocked(window.open);
+      openMock.mockClear();
+
+      const restoredConnector = new CasperDashWebConnector();
+      const onConnect = vi.fn();
+      restoredConnector.on('connect', onConnect);
+
+      expect(await restoredConnector.isConnected()).toBe(true);
+      expect(await restoredConnector.getActivePublicKey()).toEqual(publicKey);
+
+      await restoredConnector.connect();
+
+      expect(onConnect).toHaveBeenCalledWith({ activeKey: publicKey, isConnected: true });
+      expect(openMock).not.toHaveBeenCalled();
+    });
+
+    it('should ignore an expired session', async () => {
+      reply({ id: 1, method: 'connected', params: { publicKey } });
+
+      vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+
+      expect(new CasperDashWebConnector().getSession()).toBeUndefined();
+      expect(await new CasperDashWebConnector().isConnected()).toBe(false);
+    });
+
+    it('should ignore the session of another provider URL', async () => {
+      reply({ id: 1, method: 'connected', params: { publicKey } });
+
+      expect(await new CasperDashWebConnector({ providerUrl: 'https://wallet.example.com' }).isConnected()).toBe(false);
+    });
+
+    it('should keep the session when the popup is closed after the connection', async () => {
+      reply({ id: 1, method: 'connected', params: { publicKey } });
+      const onDisconnect = vi.fn();
+      connector.on('disconnect', onDisconnect);
+
+      popupMock.closed = true;
+      vi.advanceTimersByTime(500);
+
+      expect(onDisconnect).not.toHaveBeenCalled();
+      expect(await connector.isConnected()).toBe(true);
+    });
+
+    it('should reopen the popup with the session id when a signature is requested', async () => {
+      reply({ id: 1, method: 'connected', params: { publicKey } });
+      const { sessionId } = connector.getSession() ?? {};
+      popupMock.closed = true;
+      vi.advanceTimersByTime(500);
+
+      const newPopupMock = { closed: false, postMessage: vi.fn(), focus: vi.fn(), close: vi.fn() };
+      vi.mocked(window.open).mockReturnValue(newPopupMock as any);
+      popupMock = newPopupMock;
+
+      const promise = connector.signMessage('message', publicKey);
+      await vi.waitFor(() => expect(window.open).toHaveBeenLastCalledWith(
+        `https://wallet.casperdash.io?originUrl=${window.location.origin}&sessionId=${sessionId}`,
+        '_blank',
+        'location,resizable,width=460,height=675',
+      ));
+      expect(newPopupMock.postMessage).not.toHaveBeenCalled();
+
+      reply({ id: 1, method: 'connected', params: { publicKey } });
+      await vi.waitFor(() => expect(newPopupMock.postMessage).toHaveBeenCalled());
+      reply({ id: lastRequest().id, method: 'approvedSignMessage', params: { signedMessage: 'signature' } });
+
+      expect(await promise).toEqual('signature');
+      expect(connector.getSession()?.sessionId).toEqual(sessionId);
+    });
+
+    it('should create the session id outside secure contexts, without crypto.randomUUID', async () => {
+      vi.stubGlobal('crypto', { getRandomValues: crypto.getRandomValues.bind(crypto) });
+
+      reply({ id: 1, method: 'connected', params: { publicKey } });
+
+      expect(connector.getSession()?.sessionId).toMatch(/^[0-9a-f]{32}$/);
+    });
+
+    it('should forget the session on disconnect', async () => {
+      reply({ id: 1, method: 'connected', params: { publicKey } });
+
+      await connector.disconnect();
+
+      expect(connector.getSession()).toBeUndefined();
+      expect(await connector.isConnected()).toBe(false);
+    });
+  });
+
+  describe('iframe mode', () => {
+    let iframeConnector: CasperDashWebConnector;
+    let iframe: HTMLIFrameElement;
+
+    beforeEach(async () => {
+      vi.mocked(window.open).mockClear();
+      iframeConnector = new CasperDashWebConnector({ options: { mode: 'iframe' } });
+      await iframeConnector.connect();
+      iframe = document.querySelector('iframe') as HTMLIFrameElement;
+      vi.spyOn(iframe.contentWindow as Window, 'postMessage').mockImplementation(() => undefined);
+    });
+
+    afterEach(async () => {
+      await iframeConnector.disconnect();
+    });
+
+    it('should render the wallet in an overlay iframe instead of a popup', () => {
+      expect(window.open).not.toHaveBeenCalled();
+      expect(iframe.src).toEqual(`https://wallet.casperdash.io/?originUrl=${window.location.origin}&mode=iframe`);
+      expect(iframe.style.position).toEqual('fixed');
+    });
+
+    it('should hide the iframe once connected and show it on sign requests', async () => {
+      reply({ id: 1, method: 'connected', params: { publicKey } }, { source: iframe.contentWindow });
+
+      expect(await iframeConnector.isConnected()).toBe(true);
+      expect(iframe.style.display).toEqual('none');
+
+      const promise = iframeConnector.signMessage('message', publicKey);
+      const [[{ id }]] = vi.mocked(iframe.contentWindow?.postMessage as Window['postMessage']).mock.calls as any;
+
+      expect(iframe.style.display).toEqual('block');
+
+      reply({ id, method: 'approvedSignMessage', params: { signedMessage: 'signature' } }, { source: iframe.contentWindow });
+
+      expect(await promise).toEqual('signature');
+      expect(iframe.style.display).toEqual('none');
+    });
+
+    it('should remove the iframe on disconnect', async () => {
+      await iframeConnector.disconnect();
+
+      expect(document.querySelector('iframe')).toBeNull();
+    });
+  });
+
+  describe('redirect mode', () => {
+    const navigate = vi.fn();
+
+    const redirectBack = (data: Record<string, unknown>) => {
+      window.history.replaceState(null, '', `/dapp?page=1#casperdash=${encodeURIComponent(JSON.stringify(data))}`);
+
+      return new CasperDashWebConnector({ options: { mode: 'redirect', navigate } });
+    };
+
+    const lastRedirect = () => {
+      const url = new URL(navigate.mock.calls.at(-1)[0]);
+
+      return {
+        state: url.searchParams.get('state'),
+        redirectUrl: url.searchParams.get('redirectUrl'),
+        request: JSON.parse(url.searchParams.get('request') ?? 'null'),
+      };
+    };
+
+    beforeEach(() => {
+      vi.mocked(window.open).mockClear();
+      navigate.mockClear();
+      window.history.replaceState(null, '', '/dapp');
+    });
+
+    it('should navigate to the wallet to connect', async () => {
+      await new CasperDashWebConnector({ options: { mode: 'redirect', navigate } }).connect();
+
+      const { state, redirectUrl, request } = lastRedirect();
+      expect(window.open).not.toHaveBeenCalled();
+      expect(state).toBeTruthy();
+      expect(redirectUrl).toEqual(window.location.href);
+      expect(request).toBeNull();
+    });
+
+    it('should generate the state outside secure contexts, without crypto.randomUUID', async () => {
+      vi.stubGlobal('crypto', { getRandomValues: crypto.getRandomValues.bind(crypto) });
+
+      await new CasperDashWebConnector({ options: { mode: 'redirect', navigate } }).connect();
+
+      expect(lastRedirect().state).toMatch(/^[0-9a-f]{32}$/);
+    });
+
+    it('should restore the connection from the reply in the URL fragment', async () => {
+      await new CasperDashWebConnector({ options: { mode: 'redirect', navigate } }).connect();
+      const { state } = lastRedirect();
+
+      const redirectedConnector = redirectBack({ id: 1, state, method: 'connected', params: { publicKey } });
+
+      expect(await redirectedConnector.isConnected()).toBe(true);
+      expect(await redirectedConnector.getActivePublicKey()).toEqual(publicKey);
+      expect(window.location.hash).toEqual('');
+      expect(window.location.search).toEqual('?page=1');
+    });
+
+    it('should return the signed deploy of the redirect', async () => {
+      const redirectConnector = new CasperDashWebConnector({ options: { mode: 'redirect', navigate } });
+      void redirectConnector.sign({ deploy: {} }, publicKey, publicKey);
+      const { state, request } = lastRedirect();
+      expect(request).toEqual({
+        jsonrpc: '2.0',
+        id: request.id,
+        method: 'sign',
+        params: { deploy: JSON.stringify({ deploy: {} }), signingPublicKeyHex: publicKey, targetPublicKeyHex: publicKey },
+      });
+
+      const redirectedConnector = redirectBack({ id: request.id, state, method: 'approvedSign', params: { deploy: { hash: 'hash' } } });
+
+      expect(redirectedConnector.getRedirectResult()?.params).toEqual({ deploy: { hash: 'hash' } });
+    });
+
+    it('should ignore a reply that does not answer the pending redirect', async () => {
+      await new CasperDashWebConnector({ options: { mode: 'redirect', navigate } }).connect();
+
+      const redirectedConnector = redirectBack({ id: 1, state: 'forged', method: 'connected', params: { publicKey } });
+
+      expect(await redirectedConnector.isConnected()).toBe(false);
+      expect(redirectedConnector.getRedirectResult()).toBeUndefined();
+    });
+  });
+});
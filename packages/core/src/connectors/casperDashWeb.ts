@@ -1,33 +1,142 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 import { JsonTypes } from 'typedjson';
 
-import { ConnectorNotFoundError, ProviderUrlDoesNotExistError, RejectedSignMessageError } from '../errors';
+import {
+  ConnectorNotFoundError,
+  PopupClosedError,
+  ProviderUrlDoesNotExistError,
+  RejectedSignDeployError,
+  RejectedSignMessageError,
+} from '../errors';
 import { Deploy } from '../types/deploy';
 import { PostMessageMethodEnums, RepliedMessageMethodEnums } from '../enums/postMessageMethod';
-import { RejectedSignDeployError } from '../errors/RejectedSignDeployError';
+import { maybeParseDetailEvent } from '../utils/parser';
+import { RequestTracker } from '../utils/requestTracker';
+import { ClientStorage, createStorage, noopStorage } from '../utils/storage';
 
-import { Connector, SignedParams } from './base';
+import { Connector, SignedParams, ConnectorCapabilities } from './base';
 
 type Provider = Window;
 type EventProvider = Window;
-type ReplyEvent<T> = MessageEvent<{
+type Reply<T = unknown> = {
   id: number;
   method: string;
   params: T;
+  state?: string;
   result?: string;
   error?: string;
-}>;
+};
+type ReplyEvent<T> = MessageEvent<Reply<T>>;
 type SendPostMessage = {
   method: PostMessageMethodEnums;
   params?: Record<string, string | undefined>;
 };
 
+export type CasperDashWebMode = 'popup' | 'iframe' | 'redirect';
 
 export type CasperDashWebConnectorOptions = {
   name?: string;
   providerUrl?: string;
+  mode?: CasperDashWebMode;
   getProvider?: () => Provider | undefined;
   getEventProvider?: () => EventProvider;
+  navigate?: (url: string) => void;
+  requestTimeout?: number;
+  trustedOrigins?: string[];
+  storage?: ClientStorage;
+  sessionTtl?: number;
+};
+
+export type CasperDashWebSession = {
+  publicKey: string;
+  providerUrl: string;
+  sessionId: string;
+  expiresAt: number;
+};
+
+export type CasperDashWebRedirectResult = Reply<Record<string, unknown>>;
+
+const SESSION_STORAGE_KEY = 'casperDashWeb.session';
+const REDIRECT_STORAGE_KEY = 'casperDashWeb.redirect';
+const REDIRECT_FRAGMENT_KEY = 'casperdash';
+
+const IFRAME_STYLE: Partial<CSSStyleDeclaration> = {
+  position: 'fixed',
+  top: '0',
+  left: '0',
+  width: '100%',
+  height: '100%',
+  border: 'none',
+  background: 'transparent',
+  zIndex: '2147483647',
+};
+
+const PUBLIC_KEY_REGEX = /^(01[0-9a-fA-F]{64}|02[0-9a-fA-F]{66})$/;
+
+/**
+ * It generates a random hex id with `crypto.getRandomValues`, which unlike `crypto.randomUUID` is available
+ * outside secure contexts too
+ * @returns The id.
+ */
+const generateId = (): string => {
+  const bytes = globalThis.crypto.getRandomValues(new Uint8Array(16));
+
+  return Array.from(bytes, (byte: number) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * It validates the provider URL and the `trustedOrigins` of self-hosted wallets, and normalises them to
+ * their origin
+ * @param {CasperDashWebConnectorOptions} options - The options of the connector.
+ * @returns The trusted origins.
+ */
+const toTrustedOrigins = ({ providerUrl, trustedOrigins = [] }: CasperDashWebConnectorOptions): string[] => {
+  const urls = providerUrl ? [providerUrl, ...trustedOrigins] : trustedOrigins;
+
+  return urls.map((url: string) => {
+    let origin: string | undefined;
+    try {
+      origin = new URL(url).origin;
+    } catch {
+      origin = undefined;
+    }
+    if (!origin || origin === 'null') {
+      throw new Error(`Invalid trusted origin: ${url}`);
+    }
+
+    return origin;
+  });
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null;
+};
+
+/**
+ * It checks the shape of a reply of the popup, so that a malformed payload is never acted on
+ * @param {unknown} data - The data of the message event.
+ * @returns true if the reply is well formed.
+ */
+const isValidReply = (data: unknown): boolean => {
+  if (!isRecord(data) || typeof data.id !== 'number' || typeof data.method !== 'string') {
+    return false;
+  }
+  const params = isRecord(data.params) ? data.params : {};
+
+  switch (data.method) {
+    case RepliedMessageMethodEnums.CONNECTED:
+      return typeof params.publicKey === 'string' && PUBLIC_KEY_REGEX.test(params.publicKey);
+    case RepliedMessageMethodEnums.APPROVED_SIGN:
+      return isRecord(params.deploy);
+    case RepliedMessageMethodEnums.APPROVED_SIGN_MESSAGE:
+      return typeof params.signedMessage === 'string';
+    case RepliedMessageMethodEnums.DISCONNECTED:
+    case RepliedMessageMethodEnums.REJECTED_SIGN:
+    case RepliedMessageMethodEnums.REJECTED_SIGN_MESSAGE:
+      return true;
+    default:
+      return false;
+  }
 };
 
 export class CasperDashWebConnector extends Connector<
@@ -36,13 +145,29 @@ Window,
 CasperDashWebConnectorOptions
 > {
   public readonly id: string = 'casperDashWeb';
+  public readonly capabilities: ConnectorCapabilities = {
+    signDeploy: true,
+    signMessage: true,
+    wasmDeploys: true,
+    activeKeyEvents: false,
+    lockEvents: false,
+    multipleAccounts: false,
+    getVersion: false,
+    transactionV1: false,
+  };
+
   public isReady: boolean = false;
   private provider: Provider | undefined;
   private eventProvider: Window | undefined;
+  /* The window of the wallet: the popup, or the content window of the iframe. */
   private popup?: Window | null;
+  private iframe?: HTMLIFrameElement;
+  private redirectResult?: CasperDashWebRedirectResult;
   private publicKey?: string;
-  private nextRequestId: number = 0;
+  private requestTracker: RequestTracker = new RequestTracker();
   private checkOpennerInterval?: NodeJS.Timer;
+  private popupRequestId?: number;
+  private readonly trustedOrigins: string[];
 
   constructor({
     options: defaultOptions,
@@ -51,16 +176,32 @@ CasperDashWebConnectorOptions
     const options = {
       name: 'casperDashWeb',
       providerUrl: providerUrl || 'https://wallet.casperdash.io',
+      mode: 'popup' as CasperDashWebMode,
       getProvider: (): Provider | undefined => {
         return this.provider;
       },
       getEventProvider: (): EventProvider => {
         return window;
       },
+      navigate: (url: string): void => {
+        window.location.assign(url);
+      },
+      requestTimeout: 5 * 60 * 1000,
+      storage: createStorage({
+        storage: typeof window !== 'undefined' ? window.localStorage : noopStorage,
+      }),
+      sessionTtl: 24 * 60 * 60 * 1000,
       ...defaultOptions,
     };
 
     super({ options });
+
+    this.trustedOrigins = toTrustedOrigins(options);
+    this.handleMessage = this.handleMessage.bind(this);
+
+    if (options.mode === 'redirect' && typeof window !== 'undefined') {
+      this.consumeRedirectReply();
+    }
   }
 
   // eslint-disable-next-line @typescript-eslint/require-await
@@ -97,55 +238,83 @@ CasperDashWebConnectorOptions
 
   /**
    * It returns a promise that resolves to a boolean value that indicates whether the user is connected
-   * to the blockchain
+   * to the blockchain, in this page or in a session persisted by a previous one
    * @returns A boolean value.
    */
   public async isConnected(): Promise<boolean> {
-    return !!this.publicKey;
+    return !!this.publicKey || !!this.getSession();
+  }
+
+  /**
+   * It returns the session persisted in the storage, removing it when it expired or belongs to
+   * another provider URL
+   * @returns The session.
+   */
+  public getSession(): CasperDashWebSession | undefined {
+    const session = this.options.storage?.getItem<CasperDashWebSession>(SESSION_STORAGE_KEY);
+    if (!session) {
+      return undefined;
+    }
+
+    if (session.providerUrl !== this.options.providerUrl || session.expiresAt <= Date.now()) {
+      this.options.storage?.removeItem(SESSION_STORAGE_KEY);
+
+      return undefined;
+    }
+
+    return session;
   }
 
   /**
-   * It disconnects the user from the site.
+   * It disconnects the user from the site, forgetting the session and rejecting the requests still
+   * waiting for the popup.
    */
   public async disconnect(): Promise<void> {
     this.publicKey = undefined;
+    this.options.storage?.removeItem(SESSION_STORAGE_KEY);
     this.sendPostMessage({
       method: PostMessageMethodEnums.DISCONNECT,
     });
     const eventProvider = await this.getEventProvider();
 
-    eventProvider?.removeEventListener('message', (e: ReplyEvent<never>) => this.handleMessage(e));
+    eventProvider?.removeEventListener('message', this.handleMessage);
     clearInterval(this.checkOpennerInterval);
+    this.requestTracker.rejectAll(new PopupClosedError());
 
-    if (this.popup) {
-      this.popup.close();
-    }
+    this.closeWallet();
 
     this.onDisconnected();
   }
 
   /**
-   * It requests a connection to the provider, and then adds event listeners to the event provider
+   * It restores the persisted session without opening the wallet, or opens the wallet to request a
+   * connection. In `redirect` mode the page navigates to the wallet.
    */
   public async connect(): Promise<void> {
-    if (this.popup) {
-      this.popup.close();
+    const session = this.getSession();
+    if (session) {
+      this.publicKey = session.publicKey;
+      this.onConnected({ detail: { activeKey: session.publicKey, isConnected: true } });
+
+      return;
     }
 
-    this.popup = window.open(
-      `${this.options.providerUrl}?originUrl=${window.location.origin}`,
-      '_blank',
-      'location,resizable,width=460,height=675',
-    );
+    if (this.options.mode === 'redirect') {
+      this.redirect();
 
-    const eventProvider = await this.getEventProvider();
+      return;
+    }
 
-    eventProvider?.addEventListener('message', (e: ReplyEvent<never>) => this.handleMessage(e));
-    this.checkOpennerInterval = setInterval(() => {
-      if (this.popup?.closed) {
-        void this.disconnect();
-      }
-    }, 500);
+    await this.openWallet();
+  }
+
+  /**
+   * In `redirect` mode, it returns the reply the wallet redirected back with, e.g. the signed deploy
+   * of a `sign` request, since the page that made the request is gone.
+   * @returns The reply of the wallet.
+   */
+  public getRedirectResult(): CasperDashWebRedirectResult | undefined {
+    return this.redirectResult;
   }
 
   /**
@@ -153,7 +322,7 @@ CasperDashWebConnectorOptions
    * @returns The public key of the active account.
    */
   public async getActivePublicKey(): Promise<string | undefined> {
-    return undefined;
+    return this.publicKey ?? this.getSession()?.publicKey;
   }
 
   /**
@@ -161,33 +330,21 @@ CasperDashWebConnectorOptions
    *
    * The first parameter is the message to sign. The second parameter is the public key of the account
    * that will sign the message
-   * @param {string} _message - The message to sign.
-   * @param {string} _signingPublicKeyHex - The public key of the account that will sign the message.
+   * @param {string} message - The message to sign.
+   * @param {string} signingPublicKeyHex - The public key of the account that will sign the message.
    * @returns A string
    */
   public async signMessage(
     message: string,
     signingPublicKeyHex: string,
-  ): Promise<string | undefined> {
-    this.sendPostMessage({
+  ): Promise<string> {
+    return this.request<string>({
       method: PostMessageMethodEnums.SIGN_MESSAGE,
       params: {
         message,
         signingPublicKeyHex,
       },
     });
-
-    this.popup?.focus();
-
-
-    return new Promise((resolve: (message: string) => void, reject: (err: RejectedSignMessageError) => void) => {
-      super.on('approvedSignMessage', (signedMessage: string) => {
-        return resolve(signedMessage);
-      });
-      super.on('rejectedSignMessage', () => {
-        reject(new RejectedSignMessageError());
-      });
-    });
   }
 
   /**
@@ -202,8 +359,8 @@ CasperDashWebConnectorOptions
     deploy: { deploy: JsonTypes },
     signingPublicKeyHex: string,
     targetPublicKeyHex: string,
-  ): Promise<Deploy | undefined> {
-    this.sendPostMessage({
+  ): Promise<Deploy> {
+    return this.request<Deploy>({
       method: PostMessageMethodEnums.SIGN,
       params: {
         deploy: JSON.stringify(deploy),
@@ -211,34 +368,27 @@ CasperDashWebConnectorOptions
         targetPublicKeyHex,
       },
     });
-
-    this.popup?.focus();
-
-    return new Promise((resolve: (deployResult: Deploy) => void, reject: (err: RejectedSignDeployError) => void) => {
-      super.on('approvedSign', (params: SignedParams) => {
-        return resolve(params.deploy as unknown as Deploy);
-      });
-      super.on('rejectedSign', () => {
-        reject(new RejectedSignDeployError());
-      });
-    });
   }
 
+  /**
+   * It emits a `disconnect` event to the client listening on this connector
+   */
   public onDisconnected() {
-    const customEvent = new CustomEvent('casper:disconnect');
-    window.dispatchEvent(customEvent);
+    this.emit('disconnect');
   }
 
   public onActiveKeyChanged(_event: CustomEventInit<string>): void {
     // TODO:
   }
 
+  /**
+   * An event trigger on the wallet popup approving the connection
+   * @param event - CustomEventInit<{ activeKey: string; isConnected: boolean }>
+   */
   public onConnected(
     event: CustomEventInit<{ activeKey: string; isConnected: boolean }>,
   ): void {
-    const customEvent = new CustomEvent('casper:connect', event);
-    window.dispatchEvent(customEvent);
-    // this.emit('connect', { isConnected: event.detail?.isConnected, activeKey: event.detail?.activeKey });
+    this.emit('connect', maybeParseDetailEvent(event.detail));
   }
 
   public onUnlocked(_event: CustomEventInit<string>): void {
@@ -246,54 +396,295 @@ CasperDashWebConnectorOptions
   }
 
   private handleMessage(event: ReplyEvent<{ publicKey: string } | SignedParams | { signedMessage: string } >) {
-    const { data } = event;
+    if (!this.isTrustedEvent(event) || !isValidReply(event.data)) {
+      return;
+    }
+
+    this.handleReply(event.data);
+  }
+
+  /**
+   * It settles the request answered by the reply of the wallet, and hides the iframe when no request
+   * is left
+   * @param {Reply} data - The reply of the wallet.
+   */
+  private handleReply(data: Reply<{ publicKey: string } | SignedParams | { signedMessage: string }>) {
     switch (data.method) {
       case RepliedMessageMethodEnums.CONNECTED: {
-        const { data: { params } } = event as ReplyEvent<{ publicKey: string }>;
+        const { params } = data as Reply<{ publicKey: string }>;
         this.publicKey = params.publicKey;
-        this.onConnected(new CustomEvent('casperDashWeb:connect', { detail: { activeKey: this.publicKey, isConnected: true } }));
+        this.saveSession(params.publicKey);
+        if (this.popupRequestId) {
+          this.requestTracker.resolve(this.popupRequestId, undefined);
+          this.popupRequestId = undefined;
+        }
+        this.onConnected({ detail: { activeKey: this.publicKey, isConnected: true } });
         break;
       }
       case RepliedMessageMethodEnums.DISCONNECTED: {
         void this.disconnect();
         break;
       }
-      case RepliedMessageMethodEnums.APPROVED_SIGN:
-        super.emit('approvedSign', data.params as unknown as SignedParams);
+      case RepliedMessageMethodEnums.APPROVED_SIGN: {
+        const { id, params } = data as Reply<SignedParams>;
+        this.requestTracker.resolve(id, params.deploy);
         break;
+      }
       case RepliedMessageMethodEnums.REJECTED_SIGN:
-        super.emit('rejectedSign');
+        this.requestTracker.reject(data.id, new RejectedSignDeployError());
         break;
-      case RepliedMessageMethodEnums.APPROVED_SIGN_MESSAGE:{
-        const { data: { params } } = event as ReplyEvent<{ signedMessage: string }>;
-        super.emit('approvedSignMessage', params.signedMessage);
-
+      case RepliedMessageMethodEnums.APPROVED_SIGN_MESSAGE: {
+        const { id, params } = data as Reply<{ signedMessage: string }>;
+        this.requestTracker.resolve(id, params.signedMessage);
         break;
       }
       case RepliedMessageMethodEnums.REJECTED_SIGN_MESSAGE:
-        super.emit('rejectedSignMessage');
-
+        this.requestTracker.reject(data.id, new RejectedSignMessageError());
         break;
       default:
     }
+
+    if (this.requestTracker.size === 0) {
+      this.hideWallet();
+    }
+  }
+
+  /**
+   * It handles the reply the wallet put in the URL fragment when redirecting back, if it answers the
+   * request this page made before redirecting
+   */
+  private consumeRedirectReply(): void {
+    const encodedReply = new URLSearchParams(window.location.hash.slice(1)).get(REDIRECT_FRAGMENT_KEY);
+    if (!encodedReply) {
+      return;
+    }
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}${window.location.search}`);
+
+    const pendingRedirect = this.options.storage?.getItem<{ id: number; state: string }>(REDIRECT_STORAGE_KEY);
+    this.options.storage?.removeItem(REDIRECT_STORAGE_KEY);
+
+    let reply: unknown;
+    try {
+      reply = JSON.parse(encodedReply);
+    } catch (err) {
+      return;
+    }
+
+    if (!pendingRedirect || !isValidReply(reply)) {
+      return;
+    }
+    const { id, state } = reply as CasperDashWebRedirectResult;
+    if (id !== pendingRedirect.id || state !== pendingRedirect.state) {
+      return;
+    }
+
+    this.redirectResult = reply as CasperDashWebRedirectResult;
+    this.handleReply(this.redirectResult as Reply<SignedParams>);
+  }
+
+  /**
+   * It checks that the message comes from the popup opened by the connector, on a trusted origin
+   * @param {MessageEvent} event - The message event.
+   * @returns true if the message can be trusted.
+   */
+  private isTrustedEvent(event: MessageEvent): boolean {
+    if (!this.popup || event.source !== this.popup) {
+      return false;
+    }
+
+    return this.trustedOrigins.includes(event.origin);
+  }
+
+  /**
+   * It persists the session of the public key, keeping the session id while the key does not change
+   * @param {string} publicKey - The public key approved by the popup.
+   */
+  private saveSession(publicKey: string): void {
+    const { providerUrl, sessionTtl = 0, storage } = this.options;
+    if (!providerUrl) {
+      return;
+    }
+    const session = this.getSession();
+
+    storage?.setItem<CasperDashWebSession>(SESSION_STORAGE_KEY, {
+      publicKey,
+      providerUrl,
+      sessionId: session?.publicKey === publicKey ? session.sessionId : generateId(),
+      expiresAt: Date.now() + sessionTtl,
+    });
+  }
+
+  /**
+   * It returns the URL of the wallet, with the id of the persisted session so the wallet can resume it
+   * @param {string} query - The query to append.
+   * @returns The URL of the wallet.
+   */
+  private getWalletUrl(query: string = ''): string {
+    if (!this.options.providerUrl) {
+      throw new ProviderUrlDoesNotExistError();
+    }
+    const sessionId = this.getSession()?.sessionId;
+
+    return `${this.options.providerUrl}?originUrl=${window.location.origin}${sessionId ? `&sessionId=${sessionId}` : ''}${query}`;
+  }
+
+  /**
+   * It opens the wallet in a popup, or in an overlay iframe in `iframe` mode, and listens to its
+   * messages until it is closed
+   */
+  private async openWallet(): Promise<void> {
+    this.closeWallet();
+
+    if (this.options.mode === 'iframe') {
+      const iframe = document.createElement('iframe');
+      iframe.src = this.getWalletUrl('&mode=iframe');
+      Object.assign(iframe.style, IFRAME_STYLE);
+      document.body.appendChild(iframe);
+
+      this.iframe = iframe;
+      this.popup = iframe.contentWindow;
+    } else {
+      this.popup = window.open(
+        this.getWalletUrl(),
+        '_blank',
+        'location,resizable,width=460,height=675',
+      );
+    }
+
+    const eventProvider = await this.getEventProvider();
+
+    eventProvider?.removeEventListener('message', this.handleMessage);
+    eventProvider?.addEventListener('message', this.handleMessage);
+    clearInterval(this.checkOpennerInterval);
+    this.checkOpennerInterval = setInterval(() => {
+      if (this.isWalletClosed()) {
+        void this.onPopupClosed();
+      }
+    }, 500);
+  }
+
+  /**
+   * It navigates to the wallet, which redirects back with its reply in the URL fragment. The request
+   * is remembered with a random state, so that only the reply to it is accepted.
+   * @param {SendPostMessage} request - The request to send, none to request a connection.
+   */
+  private redirect(request?: SendPostMessage): void {
+    const id = this.requestTracker.nextId();
+    const state = generateId();
+    this.options.storage?.setItem(REDIRECT_STORAGE_KEY, { id, state });
+
+    const encodedRequest = request
+      ? `&request=${encodeURIComponent(JSON.stringify({ jsonrpc: '2.0', id, method: request.method, params: { ...request.params } }))}`
+      : '';
+
+    this.options.navigate?.(
+      this.getWalletUrl(`&mode=redirect&state=${state}&redirectUrl=${encodeURIComponent(window.location.href)}${encodedRequest}`),
+    );
+  }
+
+  private isWalletClosed(): boolean {
+    if (this.options.mode === 'iframe') {
+      return !this.iframe?.isConnected;
+    }
+
+    return !this.popup || this.popup.closed;
+  }
+
+  private showWallet(): void {
+    if (this.iframe) {
+      this.iframe.style.display = 'block';
+
+      return;
+    }
+
+    this.popup?.focus();
+  }
+
+  private hideWallet(): void {
+    if (this.iframe) {
+      this.iframe.style.display = 'none';
+    }
+  }
+
+  private closeWallet(): void {
+    if (this.iframe) {
+      this.iframe.remove();
+      this.iframe = undefined;
+
+      return;
+    }
+
+    this.popup?.close();
+  }
+
+  /**
+   * It rejects the requests waiting for the closed popup. The session survives the popup, unless the
+   * popup is closed before the connection is approved.
+   */
+  private async onPopupClosed(): Promise<void> {
+    if (!this.publicKey) {
+      await this.disconnect();
+
+      return;
+    }
+
+    clearInterval(this.checkOpennerInterval);
+    this.closeWallet();
+    this.popup = undefined;
+    this.popupRequestId = undefined;
+    this.requestTracker.rejectAll(new PopupClosedError());
+  }
+
+  /**
+   * It sends the request to the wallet and waits for the reply with the same id. The wallet of a
+   * connected session is reopened when it was closed. In `redirect` mode the page navigates to the
+   * wallet, so the promise never settles and the reply is read with `getRedirectResult`.
+   * @param {SendPostMessage}  - `method` and `params` of the request.
+   * @returns The result of the request.
+   */
+  private async request<T>({ method, params }: SendPostMessage): Promise<T> {
+    if (this.options.mode === 'redirect') {
+      this.redirect({ method, params });
+
+      return new Promise(() => undefined);
+    }
+
+    if (this.isWalletClosed()) {
+      if (!this.publicKey && !this.getSession()) {
+        throw new PopupClosedError();
+      }
+
+      this.publicKey = this.publicKey ?? this.getSession()?.publicKey;
+      this.popupRequestId = this.requestTracker.nextId();
+      const popupReady = this.requestTracker.track<void>(this.popupRequestId, this.options.requestTimeout);
+      await this.openWallet();
+      await popupReady;
+    }
+
+    const id = this.sendPostMessage({ method, params });
+    this.showWallet();
+
+    return this.requestTracker.track<T>(id, this.options.requestTimeout);
   }
 
   private sendPostMessage({
     method,
     params,
-  }: SendPostMessage) {
+  }: SendPostMessage): number {
     if (!this.options.providerUrl) {
       throw new ProviderUrlDoesNotExistError();
     }
-    this.nextRequestId = this.nextRequestId + 1;
+    const id = this.requestTracker.nextId();
 
-    return this.popup?.postMessage({
+    this.popup?.postMessage({
       jsonrpc: '2.0',
-      id: this.nextRequestId,
+      id,
       method,
       params: {
         ...params,
       },
     }, this.options.providerUrl ?? '');
+
+    return id;
   }
 }
@@ -1,6 +1,8 @@
 import { describe, expect, it, beforeEach, vi } from 'vitest';
 
-import { ConnectorNotFoundError } from '../errors';
+import {
+  ConnectorNotFoundError, RejectedSignDeployError, RejectedSignMessageError, WalletLockedError,
+} from '../errors';
 import { CasperLabsHelper } from '../types/casperLabsHelper';
 
 import { CasperSignerConnector, CasperSignerConnectorOptions } from './casperSigner';
@@ -248,6 +250,12 @@ describe('CasperSignerConnector', () => {
         );
         expect(providerMock?.signMessage).toHaveBeenCalledTimes(1);
       });
+
+      it('should reject with RejectedSignMessageError when the user cancels', async () => {
+        vi.mocked(providerMock.signMessage).mockRejectedValueOnce(new Error('User Cancelled Signing'));
+
+        await expect(connector.signMessage('test-message', 'test-signing-public-key')).rejects.toBeInstanceOf(RejectedSignMessageError);
+      });
     });
 
     describe('sign', () => {
@@ -266,35 +274,55 @@ describe('CasperSignerConnector', () => {
         );
         expect(providerMock?.sign).toHaveBeenCalledTimes(1);
       });
+
+      it('should reject with RejectedSignDeployError when the user cancels', async () => {
+        vi.mocked(providerMock.sign).mockRejectedValueOnce(new Error('User Cancelled Signing'));
+
+        await expect(connector.sign({ deploy: {} }, 'test-signing-public-key', 'test-target-public-key'))
+          .rejects.toBeInstanceOf(RejectedSignDeployError);
+      });
+
+      it('should reject with WalletLockedError when the Signer is locked', async () => {
+        vi.mocked(providerMock.sign).mockRejectedValueOnce(new Error('Please unlock the Signer to read key'));
+
+        await expect(connector.sign({ deploy: {} }, 'test-signing-public-key', 'test-target-public-key'))
+          .rejects.toBeInstanceOf(WalletLockedError);
+      });
+
+      it('should keep the other errors', async () => {
+        const error = new Error('Signing request rejected: the key is locked');
+        vi.mocked(providerMock.sign).mockRejectedValueOnce(error);
+
+        await expect(connector.sign({ deploy: {} }, 'test-signing-public-key', 'test-target-public-key')).rejects.toBe(error);
+      });
     });
 
     describe('onDisconnected', () => {
-      it('should dispatch a custom event with type "casper:disconnect"', () => {
-        const spy = vi.spyOn(window, 'dispatchEvent');
+      it('should emit a "disconnect" event', () => {
+        const listener = vi.fn();
+        connector.on('disconnect', listener);
         connector.onDisconnected();
-        expect(spy).toHaveBeenCalledWith(new CustomEvent('casper:disconnect'));
+        expect(listener).toHaveBeenCalledOnce();
       });
     });
 
     describe('onActiveKeyChanged', () => {
-      it('should dispatch a custom event with type "casper:change" and event details', () => {
-        const spy = vi.spyOn(window, 'dispatchEvent');
+      it('should emit a "change" event with event details', () => {
+        const listener = vi.fn();
+        connector.on('change', listener);
         const event = { detail: { activeKey: '12345', isConnected: true } };
         connector.onActiveKeyChanged(event);
-        expect(spy).toHaveBeenCalledWith(
-          new CustomEvent('casper:change', event),
-        );
+        expect(listener).toHaveBeenCalledWith({ activeKey: '12345', isConnected: true });
       });
     });
 
     describe('onConnected', () => {
-      it('should dispatch a custom event with type "casper:connect" and event details', () => {
-        const spy = vi.spyOn(window, 'dispatchEvent');
+      it('should emit a "connect" event with event details', () => {
+        const listener = vi.fn();
+        connector.on('connect', listener);
         const event = { detail: { activeKey: '12345', isConnected: true } };
         connector.onConnected(event);
-        expect(spy).toHaveBeenCalledWith(
-          new CustomEvent('casper:connect', event),
-        );
+        expect(listener).toHaveBeenCalledWith({ activeKey: '12345', isConnected: true });
       });
     });
   });
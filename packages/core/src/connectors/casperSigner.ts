@@ -1,10 +1,16 @@
 import { JsonTypes } from 'typedjson';
 
-import { ConnectorNotFoundError } from '../errors';
+import {
+  ConnectorNotFoundError,
+  RejectedSignDeployError,
+  RejectedSignMessageError,
+} from '../errors';
 import { CasperLabsHelper } from '../types/casperLabsHelper';
 import { Deploy } from '../types/deploy';
+import { maybeParseDetailEvent } from '../utils/parser';
+import { toSignerApiError } from '../utils/signing';
 
-import { Connector } from './base';
+import { Connector, ConnectorCapabilities } from './base';
 
 type CasperLabWindowGlobal = CasperLabsHelper;
 type Provider = CasperLabsHelper;
@@ -23,6 +29,17 @@ Window,
 CasperSignerConnectorOptions
 > {
   public readonly id: string = 'casperSigner';
+  public readonly capabilities: ConnectorCapabilities = {
+    signDeploy: true,
+    signMessage: true,
+    wasmDeploys: true,
+    activeKeyEvents: true,
+    lockEvents: true,
+    multipleAccounts: true,
+    getVersion: true,
+    transactionV1: false,
+  };
+
   public isReady: boolean = false;
   private provider: Provider | undefined;
   private eventProvider: Window | undefined;
@@ -46,6 +63,11 @@ CasperSignerConnectorOptions
 
     const provider = options.getProvider();
     this.isReady = !!provider;
+
+    this.onDisconnected = this.onDisconnected.bind(this);
+    this.onActiveKeyChanged = this.onActiveKeyChanged.bind(this);
+    this.onConnected = this.onConnected.bind(this);
+    this.onUnlocked = this.onUnlocked.bind(this);
   }
 
 
@@ -163,7 +185,11 @@ CasperSignerConnectorOptions
   ): Promise<string> {
     const provider = await this.getProvider();
 
-    return provider.signMessage(message, signingPublicKeyHex);
+    try {
+      return await provider.signMessage(message, signingPublicKeyHex);
+    } catch (error) {
+      throw toSignerApiError(error, new RejectedSignMessageError());
+    }
   }
 
   /**
@@ -181,35 +207,47 @@ CasperSignerConnectorOptions
   ): Promise<Deploy> {
     const provider = await this.getProvider();
 
-    return provider.sign(deploy, signingPublicKeyHex, targetPublicKeyHex);
+    try {
+      return await provider.sign(deploy, signingPublicKeyHex, targetPublicKeyHex);
+    } catch (error) {
+      throw toSignerApiError(error, new RejectedSignDeployError());
+    }
   }
 
+  /**
+   * It emits a `disconnect` event to the client listening on this connector
+   */
   public onDisconnected(): void {
-    const customEvent = new CustomEvent('casper:disconnect');
-    window.dispatchEvent(customEvent);
-    // this.emit('disconnect');
+    this.emit('disconnect');
   }
 
+  /**
+   * An event trigger on user switch account
+   * @param event - CustomEventInit<{ activeKey: string; isConnected: boolean }>
+   */
   public onActiveKeyChanged(
     event: CustomEventInit<{ activeKey: string; isConnected: boolean }>,
   ): void {
-    const customEvent = new CustomEvent('casper:change', event);
-    window.dispatchEvent(customEvent);
-    // this.emit('change', { isConnected: event.detail?.isConnected, activeKey: event.detail?.activeKey });
+    this.emit('change', maybeParseDetailEvent(event.detail));
   }
 
+  /**
+   * An event trigger on user connect wallet with Dapp
+   * @param event - CustomEventInit<{ activeKey: string; isConnected: boolean }>
+   */
   public onConnected(
     event: CustomEventInit<{ activeKey: string; isConnected: boolean }>,
   ): void {
-    const customEvent = new CustomEvent('casper:connect', event);
-    window.dispatchEvent(customEvent);
-    // this.emit('connect', { isConnected: event.detail?.isConnected, activeKey: event.detail?.activeKey });
+    this.emit('connect', maybeParseDetailEvent(event.detail));
   }
 
+  /**
+   * An event trigger on user unlock the wallet
+   * @param event - CustomEventInit<{ isUnlocked: boolean; isConnected: boolean }>
+   */
   public onUnlocked(
-    event: CustomEventInit<{ isUnlocked: string; isConnected: boolean }>,
+    event: CustomEventInit<{ isUnlocked: boolean; isConnected: boolean }>,
   ): void {
-    const customEvent = new CustomEvent('casper:unlocked', event);
-    window.dispatchEvent(customEvent);
+    this.emit('unlock', maybeParseDetailEvent(event.detail));
   }
 }
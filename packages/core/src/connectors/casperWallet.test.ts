@@ -1,6 +1,8 @@
 import { describe, expect, it, beforeEach, vi } from 'vitest';
 
-import { ConnectorNotFoundError } from '../errors';
+import {
+  ConnectorNotFoundError, RejectedSignDeployError, RejectedSignMessageError, WalletLockedError,
+} from '../errors';
 import { CasperWalletProvider } from '../types/casperWalletProvider';
 
 import { CasperWalletConnector, CasperWalletConnectorOptions } from './casperWallet';
@@ -271,6 +273,12 @@ describe('CasperWalletConnector', () => {
         );
         expect(providerMock?.signMessage).toHaveBeenCalledTimes(1);
       });
+
+      it('should reject with RejectedSignMessageError when the user cancels', async () => {
+        vi.mocked(providerMock.signMessage).mockResolvedValueOnce({ cancelled: true });
+
+        await expect(connector.signMessage('test-message', 'test-signing-public-key')).rejects.toBeInstanceOf(RejectedSignMessageError);
+      });
     });
 
     describe('sign', () => {
@@ -291,35 +299,55 @@ describe('CasperWalletConnector', () => {
         );
         expect(providerMock?.sign).toHaveBeenCalledTimes(1);
       });
+
+      it('should reject with RejectedSignDeployError when the user cancels', async () => {
+        vi.mocked(providerMock.sign).mockResolvedValueOnce({ cancelled: true });
+
+        await expect(connector.sign({ deploy: {} }, 'test-signing-public-key')).rejects.toBeInstanceOf(RejectedSignDeployError);
+      });
+
+      it('should reject with WalletLockedError when the wallet is locked', async () => {
+        vi.mocked(providerMock.sign).mockRejectedValueOnce(Object.assign(new Error('Wallet is locked'), { name: 'WalletLockedError' }));
+
+        await expect(connector.sign({ deploy: {} }, 'test-signing-public-key')).rejects.toBeInstanceOf(WalletLockedError);
+      });
     });
 
     describe('onDisconnected', () => {
-      it('should dispatch a custom event with type "casper:disconnect"', () => {
-        const spy = vi.spyOn(window, 'dispatchEvent');
+      it('should emit a "disconnect" event', () => {
+        const listener = vi.fn();
+        connector.on('disconnect', listener);
         connector.onDisconnected();
-        expect(spy).toHaveBeenCalledWith(new CustomEvent('casper:disconnect'));
+        expect(listener).toHaveBeenCalledOnce();
       });
     });
 
     describe('onActiveKeyChanged', () => {
-      it('should dispatch a custom event with type "casper:change" and event details', () => {
-        const spy = vi.spyOn(window, 'dispatchEvent');
+      it('should emit a "change" event with event details', () => {
+        const listener = vi.fn();
+        connector.on('change', listener);
         const event = { detail: { activeKey: '12345', isConnected: true } };
         connector.onActiveKeyChanged(event);
-        expect(spy).toHaveBeenCalledWith(
-          new CustomEvent('casper:change', event),
-        );
+        expect(listener).toHaveBeenCalledWith({ activeKey: '12345', isConnected: true });
+      });
+    });
+
+    describe('onUnlocked', () => {
+      it('should emit an "unlock" event with the parsed event details', () => {
+        const listener = vi.fn();
+        connector.on('unlock', listener);
+        connector.onUnlocked({ detail: JSON.stringify({ isUnlocked: true, isConnected: true }) });
+        expect(listener).toHaveBeenCalledWith({ isUnlocked: true, isConnected: true });
       });
     });
 
     describe('onConnected', () => {
-      it('should dispatch a custom event with type "casper:connect" and event details', () => {
-        const spy = vi.spyOn(window, 'dispatchEvent');
+      it('should emit a "connect" event with event details', () => {
+        const listener = vi.fn();
+        connector.on('connect', listener);
         const event = { detail: { activeKey: '12345', isConnected: true } };
         connector.onConnected(event);
-        expect(spy).toHaveBeenCalledWith(
-          new CustomEvent('casper:connect', event),
-        );
+        expect(listener).toHaveBeenCalledWith({ activeKey: '12345', isConnected: true });
       });
     });
   });
@@ -1,11 +1,14 @@
 import { JsonTypes } from 'typedjson';
 import * as CasperJsSdk from 'casper-js-sdk';
 
-import { ConnectorNotFoundError } from '../errors';
+import {
+  ConnectorNotFoundError, RejectedSignDeployError, RejectedSignMessageError, WalletLockedError,
+} from '../errors';
 import { CasperWalletProvider } from '../types/casperWalletProvider';
 import { Deploy } from '../types/deploy';
+import { maybeParseDetailEvent } from '../utils/parser';
 
-import { Connector } from './base';
+import { Connector, ConnectorCapabilities } from './base';
 
 const { DeployUtil, CLPublicKey } = CasperJsSdk;
 
@@ -13,10 +16,23 @@ type CasperWalletWindowGlobal = CasperWalletProvider;
 type Provider = CasperWalletProvider;
 type EventProvider = Window;
 
+/* Casper Wallet rejects the requests of a locked wallet with an error of this name */
+const LOCKED_ERROR_NAME = 'WalletLockedError';
+
+/**
+ * It maps the error of a locked Casper Wallet to `WalletLockedError`, and keeps the others
+ * @param {unknown} error - The error of the wallet.
+ * @returns The typed error.
+ */
+const toCasperWalletError = (error: unknown): unknown => {
+  return (error as Partial<Error> | undefined)?.name === LOCKED_ERROR_NAME ? new WalletLockedError() : error;
+};
+
 export type CasperWalletConnectorOptions = {
   name?: string;
   getProvider?: () => Provider | undefined;
   getEventProvider?: () => EventProvider;
+  eventNamespace?: string;
 };
 
 /* It's a connector that connects to the Casper Signer extension */
@@ -26,6 +42,17 @@ Window,
 CasperWalletConnectorOptions
 > {
   public readonly id: string = 'casperWallet';
+  public readonly capabilities: ConnectorCapabilities = {
+    signDeploy: true,
+    signMessage: true,
+    wasmDeploys: true,
+    activeKeyEvents: true,
+    lockEvents: true,
+    multipleAccounts: true,
+    getVersion: true,
+    transactionV1: false,
+  };
+
   public isReady: boolean = false;
   private provider: Provider | undefined;
   private eventProvider: Window | undefined;
@@ -43,12 +70,18 @@ CasperWalletConnectorOptions
       getEventProvider: (): EventProvider => {
         return window;
       },
+      eventNamespace: 'casper-wallet',
       ...defaultOptions,
     };
     super({ options });
 
     const provider = options.getProvider();
     this.isReady = !!provider;
+
+    this.onDisconnected = this.onDisconnected.bind(this);
+    this.onActiveKeyChanged = this.onActiveKeyChanged.bind(this);
+    this.onConnected = this.onConnected.bind(this);
+    this.onUnlocked = this.onUnlocked.bind(this);
   }
 
 
@@ -108,16 +141,18 @@ CasperWalletConnectorOptions
 
     const eventProvider = await this.getEventProvider();
 
+    const { eventNamespace } = this.options;
+
     eventProvider?.removeEventListener(
-      'casper-wallet:activeKeyChanged',
+      `${eventNamespace}:activeKeyChanged`,
       this.onActiveKeyChanged,
     );
     eventProvider?.removeEventListener(
-      'casper-wallet:disconnected',
+      `${eventNamespace}:disconnected`,
       this.onDisconnected,
     );
-    eventProvider?.removeEventListener('casper-wallet:connected', this.onConnected);
-    eventProvider?.removeEventListener('casper-wallet:unlocked', this.onUnlocked);
+    eventProvider?.removeEventListener(`${eventNamespace}:connected`, this.onConnected);
+    eventProvider?.removeEventListener(`${eventNamespace}:unlocked`, this.onUnlocked);
 
     await provider.disconnectFromSite();
   }
@@ -130,13 +165,15 @@ CasperWalletConnectorOptions
 
     const eventProvider = await this.getEventProvider();
 
+    const { eventNamespace } = this.options;
+
     eventProvider?.addEventListener(
-      'casper-wallet:activeKeyChanged',
+      `${eventNamespace}:activeKeyChanged`,
       this.onActiveKeyChanged,
     );
-    eventProvider?.addEventListener('casper-wallet:disconnected', this.onDisconnected);
-    eventProvider?.addEventListener('casper-wallet:connected', this.onConnected);
-    eventProvider?.addEventListener('casper-wallet:unlocked', this.onUnlocked);
+    eventProvider?.addEventListener(`${eventNamespace}:disconnected`, this.onDisconnected);
+    eventProvider?.addEventListener(`${eventNamespace}:connected`, this.onConnected);
+    eventProvider?.addEventListener(`${eventNamespace}:unlocked`, this.onUnlocked);
 
     await provider.requestConnection();
   }
@@ -163,12 +200,17 @@ CasperWalletConnectorOptions
   public async signMessage(
     message: string,
     signingPublicKeyHex: string,
-  ): Promise<string | undefined> {
+  ): Promise<string> {
     const provider = await this.getProvider();
 
-    const signatureResponse = await provider.signMessage(message, signingPublicKeyHex);
+    let signatureResponse;
+    try {
+      signatureResponse = await provider.signMessage(message, signingPublicKeyHex);
+    } catch (error) {
+      throw toCasperWalletError(error);
+    }
     if (signatureResponse.cancelled) {
-      return undefined;
+      throw new RejectedSignMessageError();
     }
 
     return signatureResponse.signatureHex;
@@ -185,14 +227,19 @@ CasperWalletConnectorOptions
   public async sign(
     deploy: { deploy: JsonTypes },
     signingPublicKeyHex: string,
-  ): Promise<Deploy | undefined> {
+  ): Promise<Deploy> {
     const provider = await this.getProvider();
     const deployJson = DeployUtil.deployFromJson(deploy);
 
-    const res = await provider.sign(JSON.stringify(deploy), signingPublicKeyHex);
+    let res;
+    try {
+      res = await provider.sign(JSON.stringify(deploy), signingPublicKeyHex);
+    } catch (error) {
+      throw toCasperWalletError(error);
+    }
 
     if (res.cancelled) {
-      return undefined;
+      throw new RejectedSignDeployError();
     }
 
     const signedDeploy = DeployUtil.setSignature(
@@ -204,32 +251,40 @@ CasperWalletConnectorOptions
     return DeployUtil.deployToJson(signedDeploy);
   }
 
+  /**
+   * It emits a `disconnect` event to the client listening on this connector
+   */
   public onDisconnected(): void {
-    const customEvent = new CustomEvent('casper:disconnect');
-    window.dispatchEvent(customEvent);
-    // this.emit('disconnect');
+    this.emit('disconnect');
   }
 
+  /**
+   * An event trigger on user switch account
+   * @param event - CustomEventInit<string>
+   */
   public onActiveKeyChanged(
     event: CustomEventInit<string>,
   ): void {
-    const customEvent = new CustomEvent('casper:change', event);
-    window.dispatchEvent(customEvent);
-    // this.emit('change', { isConnected: event.detail?.isConnected, activeKey: event.detail?.activeKey });
+    this.emit('change', maybeParseDetailEvent(event.detail));
   }
 
+  /**
+   * An event trigger on user connect wallet with Dapp
+   * @param event - CustomEventInit<string>
+   */
   public onConnected(
     event: CustomEventInit<string>,
   ): void {
-    const customEvent = new CustomEvent('casper:connect', event);
-    window.dispatchEvent(customEvent);
-    // this.emit('connect', { isConnected: event.detail?.isConnected, activeKey: event.detail?.activeKey });
+    this.emit('connect', maybeParseDetailEvent(event.detail));
   }
 
+  /**
+   * An event trigger on user unlock the wallet
+   * @param event - CustomEventInit<string>
+   */
   public onUnlocked(
     event: CustomEventInit<string>,
   ): void {
-    const customEvent = new CustomEvent('casper:unlocked', event);
-    window.dispatchEvent(customEvent);
+    this.emit('unlock', maybeParseDetailEvent(event.detail));
   }
 }
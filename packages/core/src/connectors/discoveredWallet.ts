@@ -0,0 +1,22 @@
+import { WalletProviderDetail, WalletProviderInfo } from '../utils/discovery';
+
+import { CasperWalletConnector } from './casperWallet';
+
+/* It's a connector built from a wallet announcement, talking to the announced provider */
+export class DiscoveredWalletConnector extends CasperWalletConnector {
+  public readonly id: string;
+  public readonly info: WalletProviderInfo;
+
+  constructor({ detail }: { detail: WalletProviderDetail }) {
+    super({
+      options: {
+        name: detail.info.name,
+        getProvider: () => detail.provider,
+        eventNamespace: detail.info.eventNamespace ?? detail.info.rdns,
+      },
+    });
+
+    this.id = detail.info.rdns;
+    this.info = detail.info;
+  }
+}
@@ -3,3 +3,5 @@ export * from './casperDash';
 export * from './casperSigner';
 export * from './casperWallet';
 export * from './casperDashWeb';
+export * from './localKey';
+export * from './discoveredWallet';
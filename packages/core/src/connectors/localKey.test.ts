@@ -0,0 +1,121 @@
+// @vitest-environment node
+import { describe, expect, it, beforeEach, vi } from 'vitest';
+import { CLPublicKey, DeployUtil, Keys, verifyMessageSignature, decodeBase16 } from 'casper-js-sdk';
+
+import { ConnectorNotFoundError, SignerMismatchError } from '../errors';
+
+import { LocalKeyConnector } from './localKey';
+
+const makeDeploy = (publicKey: CLPublicKey) => DeployUtil.deployToJson(DeployUtil.makeDeploy(
+  new DeployUtil.DeployParams(publicKey, 'casper-test'),
+  DeployUtil.ExecutableDeployItem.newTransfer(2500000000, publicKey, null, 1),
+  DeployUtil.standardPayment(100000000),
+));
+
+describe('LocalKeyConnector', () => {
+  let keyPair: Keys.AsymmetricKey;
+  let connector: LocalKeyConnector;
+
+  beforeEach(() => {
+    keyPair = Keys.Ed25519.new();
+    connector = new LocalKeyConnector({ options: { keyPair } });
+  });
+
+  it('has the correct id', () => {
+    expect(connector.id).toBe('localKey');
+  });
+
+  describe('getProvider', () => {
+    it('should load the key pair from a PEM string', async () => {
+      const secp256k1KeyPair = Keys.Secp256K1.new();
+      connector = new LocalKeyConnector({ options: { privateKeyPem: secp256k1KeyPair.exportPrivateKeyInPem() } });
+
+      const provider = await connector.getProvider();
+
+      expect(provider.publicKey.toHex(false)).toEqual(secp256k1KeyPair.publicKey.toHex(false));
+    });
+
+    it('should generate a key pair if no key is given', async () => {
+      connector = new LocalKeyConnector();
+
+      const provider = await connector.getProvider();
+
+      expect(provider.publicKey.isEd25519()).toBe(true);
+      expect(await connector.getProvider()).toBe(provider);
+    });
+  });
+
+  describe('connect', () => {
+    it('should emit a "connect" event with the public key', async () => {
+      const listener = vi.fn();
+      connector.on('connect', listener);
+
+      await connector.connect();
+
+      expect(await connector.isConnected()).toBe(true);
+      expect(await connector.getActivePublicKey()).toEqual(keyPair.publicKey.toHex(false));
+      expect(listener).toHaveBeenCalledWith({ activeKey: keyPair.publicKey.toHex(false), isConnected: true });
+    });
+  });
+
+  describe('disconnect', () => {
+    it('should emit a "disconnect" event', async () => {
+      const listener = vi.fn();
+      connector.on('disconnect', listener);
+      await connector.connect();
+
+      await connector.disconnect();
+
+      expect(await connector.isConnected()).toBe(false);
+      expect(await connector.getActivePublicKey()).toBeUndefined();
+      expect(listener).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe('setKeyPair', () => {
+    it('should emit a "change" event with the new public key when connected', async () => {
+      const listener = vi.fn();
+      connector.on('change', listener);
+      await connector.connect();
+      const newKeyPair = Keys.Secp256K1.new();
+
+      connector.setKeyPair(newKeyPair);
+
+      expect(await connector.getActivePublicKey()).toEqual(newKeyPair.publicKey.toHex(false));
+      expect(listener).toHaveBeenCalledWith({ activeKey: newKeyPair.publicKey.toHex(false), isConnected: true });
+    });
+  });
+
+  describe('signMessage', () => {
+    it('should sign the message with the Casper message header', async () => {
+      await connector.connect();
+
+      const signature = await connector.signMessage('hello', keyPair.publicKey.toHex());
+
+      expect(verifyMessageSignature(keyPair.publicKey, 'hello', decodeBase16(signature))).toBe(true);
+    });
+
+    it('should throw an error when not connected', async () => {
+      await expect(connector.signMessage('hello', keyPair.publicKey.toHex())).rejects.toBeInstanceOf(ConnectorNotFoundError);
+    });
+
+    it('should throw an error when the signing key is not the local key', async () => {
+      await connector.connect();
+
+      await expect(connector.signMessage('hello', Keys.Ed25519.new().publicKey.toHex())).rejects.toBeInstanceOf(SignerMismatchError);
+    });
+  });
+
+  describe('sign', () => {
+    it('should sign the deploy with the key pair', async () => {
+      await connector.connect();
+
+      const signedDeploy = await connector.sign(makeDeploy(keyPair.publicKey), keyPair.publicKey.toHex());
+      const deploy = DeployUtil.deployFromJson(signedDeploy).unwrap();
+
+      expect(deploy.approvals).toHaveLength(1);
+      expect(deploy.approvals[0]?.signer).toEqual(keyPair.publicKey.toHex());
+      expect(DeployUtil.validateDeploy(deploy).ok).toBe(true);
+    });
+  });
+});
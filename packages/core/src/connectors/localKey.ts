@@ -0,0 +1,178 @@
+import { JsonTypes } from 'typedjson';
+import { DeployUtil, encodeBase16, formatMessageWithHeaders, Keys, signFormattedMessage } from 'casper-js-sdk';
+
+import { ConnectorNotFoundError, SignerMismatchError } from '../errors';
+import { Deploy } from '../types/deploy';
+import { KeyPairParams, loadKeyPair } from '../utils/keys';
+
+import { Connector, ConnectorCapabilities } from './base';
+
+type Provider = Keys.AsymmetricKey;
+type EventProvider = LocalKeyConnector;
+
+export type LocalKeyConnectorOptions = KeyPairParams & {
+  name?: string;
+  keyPair?: Keys.AsymmetricKey;
+};
+
+/* It's a connector that signs deploys and messages with an in-memory key pair, for tests, demos and CI */
+export class LocalKeyConnector extends Connector<
+Provider,
+EventProvider,
+LocalKeyConnectorOptions
+> {
+  public readonly id: string = 'localKey';
+  public readonly capabilities: ConnectorCapabilities = {
+    signDeploy: true,
+    signMessage: true,
+    wasmDeploys: true,
+    activeKeyEvents: true,
+    lockEvents: false,
+    multipleAccounts: false,
+    getVersion: false,
+    transactionV1: false,
+  };
+
+  public isReady: boolean = true;
+  private keyPair?: Provider;
+  private connected: boolean = false;
+
+  constructor({
+    options: defaultOptions,
+  }: { options?: LocalKeyConnectorOptions } = {}) {
+    const options = {
+      name: 'LocalKey',
+      ...defaultOptions,
+    };
+
+    super({ options });
+  }
+
+  /**
+   * It returns the key pair of the connector, loading it from the options on first use
+   * @returns The key pair.
+   */
+  public async getProvider(): Promise<Provider> {
+    if (!this.keyPair) {
+      this.keyPair = this.readKeyPair();
+    }
+
+    return this.keyPair;
+  }
+
+  /**
+   * The connector emits its own events, so it is its own event provider
+   * @returns The connector.
+   */
+  public async getEventProvider(): Promise<EventProvider> {
+    return this;
+  }
+
+  public async isConnected(): Promise<boolean> {
+    return this.connected;
+  }
+
+  /**
+   * It forgets the connection and emits a `disconnect` event
+   */
+  public async disconnect(): Promise<void> {
+    this.connected = false;
+
+    this.onDisconnected();
+  }
+
+  /**
+   * It loads the key pair and emits a `connect` event with its public key
+   */
+  public async connect(): Promise<void> {
+    const keyPair = await this.getProvider();
+    this.connected = true;
+
+    this.onConnected({ detail: { activeKey: keyPair.publicKey.toHex(false), isConnected: true } });
+  }
+
+  /**
+   * It returns the public key of the key pair while connected.
+   * @returns The public key of the key pair.
+   */
+  public async getActivePublicKey(): Promise<string | undefined> {
+    if (!this.connected) {
+      return undefined;
+    }
+    const keyPair = await this.getProvider();
+
+    return keyPair.publicKey.toHex(false);
+  }
+
+  /**
+   * It replaces the key pair, emitting a `change` event when connected
+   * @param {Keys.AsymmetricKey} keyPair - The new key pair.
+   */
+  public setKeyPair(keyPair: Keys.AsymmetricKey): void {
+    this.keyPair = keyPair;
+
+    if (this.connected) {
+      this.onActiveKeyChanged({ detail: { activeKey: keyPair.publicKey.toHex(false), isConnected: true } });
+    }
+  }
+
+  /**
+   * It signs the message with the Casper message header, like the wallets do
+   * @param {string} message - The message to sign.
+   * @param {string} signingPublicKeyHex - The public key of the key pair.
+   * @returns The signature as a hex string.
+   */
+  public async signMessage(message: string, signingPublicKeyHex: string): Promise<string> {
+    const keyPair = await this.getSigningKeyPair(signingPublicKeyHex);
+
+    return encodeBase16(signFormattedMessage(keyPair, formatMessageWithHeaders(message)));
+  }
+
+  /**
+   * It signs the deploy with the key pair
+   * @param deploy - { deploy: JsonTypes }
+   * @param {string} signingPublicKeyHex - The public key of the key pair.
+   * @returns A deploy object.
+   */
+  public async sign(deploy: { deploy: JsonTypes }, signingPublicKeyHex: string): Promise<Deploy> {
+    const keyPair = await this.getSigningKeyPair(signingPublicKeyHex);
+    const deployResult = DeployUtil.deployFromJson(deploy);
+    if (deployResult.err) {
+      throw deployResult.val;
+    }
+
+    return DeployUtil.deployToJson(DeployUtil.signDeploy(deployResult.val, keyPair));
+  }
+
+  public onDisconnected(): void {
+    this.emit('disconnect');
+  }
+
+  public onActiveKeyChanged(event: CustomEventInit<{ activeKey: string; isConnected: boolean }>): void {
+    this.emit('change', event.detail ?? {});
+  }
+
+  public onConnected(event: CustomEventInit<{ activeKey: string; isConnected: boolean }>): void {
+    this.emit('connect', event.detail ?? {});
+  }
+
+  /**
+   * It reads the key pair of the options, on the first call of `getProvider()`
+   * @returns The key pair.
+   */
+  protected readKeyPair(): Provider {
+    return this.options.keyPair ?? loadKeyPair(this.options);
+  }
+
+  private async getSigningKeyPair(signingPublicKeyHex: string): Promise<Provider> {
+    if (!this.connected) {
+      throw new ConnectorNotFoundError();
+    }
+    const keyPair = await this.getProvider();
+    if (keyPair.publicKey.toHex(false) !== signingPublicKeyHex.toLowerCase()) {
+      throw new SignerMismatchError();
+    }
+
+    return keyPair;
+  }
+}
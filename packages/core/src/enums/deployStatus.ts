@@ -0,0 +1,5 @@
+export enum DeployStatusEnum {
+  PENDING = 'pending',
+  SUCCESS = 'success',
+  FAILURE = 'failure',
+}
@@ -2,3 +2,5 @@ export * from './status';
 export * from './algo';
 export * from './deployTypes';
 export * from './ledger';
+export * from './signIn';
+export * from './deployStatus';
@@ -1,3 +1,34 @@
 export enum LedgerEnum {
   CASPER_KEY_PATH = 'm/44\'/506\'/0\'/0/',
 }
+
+/* Derivation path schemes, `{index}` is replaced by the index of the account */
+export enum LedgerPathTemplateEnum {
+  ADDRESS_INDEX = 'm/44\'/506\'/0\'/0/{index}',
+  ACCOUNT_INDEX = 'm/44\'/506\'/{index}\'/0/0',
+}
+
+export enum LedgerErrorCodeEnum {
+  UNKNOWN = 'LEDGER_UNKNOWN',
+  NOT_CONNECTED = 'LEDGER_NOT_CONNECTED',
+  USER_REJECTED = 'LEDGER_USER_REJECTED',
+  LOCKED = 'LEDGER_LOCKED',
+  WRONG_APP = 'LEDGER_WRONG_APP',
+  DATA_INVALID = 'LEDGER_DATA_INVALID',
+  DEPLOY_TOO_LARGE = 'LEDGER_DEPLOY_TOO_LARGE',
+  WASM_SIGNING_DISABLED = 'LEDGER_WASM_SIGNING_DISABLED',
+}
+
+/* Status words returned by the Ledger device and the Casper app */
+export enum LedgerStatusCodeEnum {
+  NO_ERRORS = 0x9000,
+  DEVICE_LOCKED = 0x5515,
+  APP_NOT_OPEN = 0x6511,
+  OUTPUT_BUFFER_TOO_SMALL = 0x6983,
+  DATA_INVALID = 0x6984,
+  CONDITIONS_NOT_SATISFIED = 0x6985,
+  TRANSACTION_REJECTED = 0x6986,
+  INSTRUCTION_NOT_SUPPORTED = 0x6d00,
+  APP_DOES_NOT_SEEM_TO_BE_OPEN = 0x6e00,
+  CLA_NOT_SUPPORTED = 0x6e01,
+}
@@ -0,0 +1,9 @@
+export enum SignInErrorCodeEnum {
+  INVALID_MESSAGE = 'SIGN_IN_INVALID_MESSAGE',
+  INVALID_SIGNATURE = 'SIGN_IN_INVALID_SIGNATURE',
+  DOMAIN_MISMATCH = 'SIGN_IN_DOMAIN_MISMATCH',
+  CHAIN_MISMATCH = 'SIGN_IN_CHAIN_MISMATCH',
+  NONCE_MISMATCH = 'SIGN_IN_NONCE_MISMATCH',
+  EXPIRED = 'SIGN_IN_EXPIRED',
+  NOT_YET_VALID = 'SIGN_IN_NOT_YET_VALID',
+}
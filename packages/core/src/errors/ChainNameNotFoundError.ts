@@ -0,0 +1,4 @@
+export class ChainNameNotFoundError extends Error {
+  public name: string = 'ChainNameNotFoundError';
+  public message: string = 'Chain name not found, pass `chainName` or set it in the client config';
+}
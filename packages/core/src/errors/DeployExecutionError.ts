@@ -0,0 +1,19 @@
+/* It's thrown when a deploy is executed with a failure, with the error message and the cost of the execution */
+export class DeployExecutionError extends Error {
+  public name: string = 'DeployExecutionError';
+  public message: string = 'Deploy execution failed';
+  public deployHash: string;
+  public cost?: string;
+  public errorMessage?: string;
+
+  constructor({ deployHash, cost, errorMessage }: { deployHash: string; cost?: string; errorMessage?: string }) {
+    super(errorMessage);
+
+    if (errorMessage) {
+      this.message = `Deploy execution failed: ${errorMessage}`;
+    }
+    this.deployHash = deployHash;
+    this.cost = cost;
+    this.errorMessage = errorMessage;
+  }
+}
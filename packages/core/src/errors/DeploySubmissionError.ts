@@ -0,0 +1,15 @@
+/* It's thrown when the node does not accept a signed deploy, `cause` is the error of the RPC call */
+export class DeploySubmissionError extends Error {
+  public name: string = 'DeploySubmissionError';
+  public message: string = 'Failed to submit the deploy';
+  public cause?: unknown;
+
+  constructor({ message, cause }: { message?: string; cause?: unknown } = {}) {
+    super(message);
+
+    if (message) {
+      this.message = message;
+    }
+    this.cause = cause;
+  }
+}
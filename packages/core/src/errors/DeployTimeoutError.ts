@@ -0,0 +1,4 @@
+export class DeployTimeoutError extends Error {
+  public name: string = 'DeployTimeoutError';
+  public message: string = 'Deploy was not processed before the timeout';
+}
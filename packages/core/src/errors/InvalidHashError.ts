@@ -0,0 +1,4 @@
+export class InvalidHashError extends Error {
+  public name: string = 'InvalidHashError';
+  public message: string = 'Hash must be 64 hex characters, with or without its prefix';
+}
@@ -0,0 +1,4 @@
+export class LedgerBusyError extends Error {
+  public name: string = 'LedgerBusyError';
+  public message: string = 'Ledger device is busy with another request';
+}
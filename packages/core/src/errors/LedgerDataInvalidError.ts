@@ -0,0 +1,9 @@
+import { LedgerErrorCodeEnum } from '../enums/ledger';
+
+import { LedgerError } from './LedgerError';
+
+export class LedgerDataInvalidError extends LedgerError {
+  public name: string = 'LedgerDataInvalidError';
+  public message: string = 'Unsupported Deploy';
+  public code: LedgerErrorCodeEnum = LedgerErrorCodeEnum.DATA_INVALID;
+}
@@ -0,0 +1,9 @@
+import { LedgerErrorCodeEnum } from '../enums/ledger';
+
+import { LedgerError } from './LedgerError';
+
+export class LedgerDeployTooLargeError extends LedgerError {
+  public name: string = 'LedgerDeployTooLargeError';
+  public message: string = 'Deploy is too large to be signed with the Ledger device';
+  public code: LedgerErrorCodeEnum = LedgerErrorCodeEnum.DEPLOY_TOO_LARGE;
+}
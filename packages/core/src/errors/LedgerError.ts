@@ -0,0 +1,18 @@
+import { LedgerErrorCodeEnum } from '../enums/ledger';
+
+/* It's the base class of the Ledger errors, `code` is stable and `statusCode` is the status word of the device */
+export class LedgerError extends Error {
+  public name: string = 'LedgerError';
+  public message: string = 'Something went wrong with the Ledger device';
+  public code: LedgerErrorCodeEnum = LedgerErrorCodeEnum.UNKNOWN;
+  public statusCode?: number;
+
+  constructor({ message, statusCode }: { message?: string; statusCode?: number } = {}) {
+    super(message);
+
+    if (message) {
+      this.message = message;
+    }
+    this.statusCode = statusCode;
+  }
+}
@@ -0,0 +1,9 @@
+import { LedgerErrorCodeEnum } from '../enums/ledger';
+
+import { LedgerError } from './LedgerError';
+
+export class LedgerLockedError extends LedgerError {
+  public name: string = 'LedgerLockedError';
+  public message: string = 'Please unlock your Ledger device';
+  public code: LedgerErrorCodeEnum = LedgerErrorCodeEnum.LOCKED;
+}
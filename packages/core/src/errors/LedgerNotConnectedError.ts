@@ -0,0 +1,9 @@
+import { LedgerErrorCodeEnum } from '../enums/ledger';
+
+import { LedgerError } from './LedgerError';
+
+export class LedgerNotConnectedError extends LedgerError {
+  public name: string = 'LedgerNotConnectedError';
+  public message: string = 'Please connect to Casper Ledger';
+  public code: LedgerErrorCodeEnum = LedgerErrorCodeEnum.NOT_CONNECTED;
+}
@@ -0,0 +1,9 @@
+import { LedgerErrorCodeEnum } from '../enums/ledger';
+
+import { LedgerError } from './LedgerError';
+
+export class LedgerUserRejectedError extends LedgerError {
+  public name: string = 'LedgerUserRejectedError';
+  public message: string = 'Request rejected on the Ledger device';
+  public code: LedgerErrorCodeEnum = LedgerErrorCodeEnum.USER_REJECTED;
+}
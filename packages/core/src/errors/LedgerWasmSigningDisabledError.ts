@@ -0,0 +1,9 @@
+import { LedgerErrorCodeEnum } from '../enums/ledger';
+
+import { LedgerError } from './LedgerError';
+
+export class LedgerWasmSigningDisabledError extends LedgerError {
+  public name: string = 'LedgerWasmSigningDisabledError';
+  public message: string = 'Please enable blind signing in the Casper app on your Ledger device to sign WASM deploys';
+  public code: LedgerErrorCodeEnum = LedgerErrorCodeEnum.WASM_SIGNING_DISABLED;
+}
@@ -0,0 +1,9 @@
+import { LedgerErrorCodeEnum } from '../enums/ledger';
+
+import { LedgerError } from './LedgerError';
+
+export class LedgerWrongAppError extends LedgerError {
+  public name: string = 'LedgerWrongAppError';
+  public message: string = 'You must open the Casper app on your Ledger device to connect.';
+  public code: LedgerErrorCodeEnum = LedgerErrorCodeEnum.WRONG_APP;
+}
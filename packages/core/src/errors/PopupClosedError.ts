@@ -0,0 +1,7 @@
+import { UserRejectedRequestError } from './UserRejectedRequestError';
+
+/* Closing the wallet popup rejects the requests still waiting for it */
+export class PopupClosedError extends UserRejectedRequestError {
+  public name: string = 'PopupClosedError';
+  public message: string = 'Wallet popup is closed';
+}
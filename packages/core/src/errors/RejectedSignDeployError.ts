@@ -1,4 +1,6 @@
-export class RejectedSignDeployError extends Error {
+import { UserRejectedRequestError } from './UserRejectedRequestError';
+
+export class RejectedSignDeployError extends UserRejectedRequestError {
   public name: string = 'RejectedSignDeployError';
-  public message: string = 'Rejected sign message';
+  public message: string = 'Rejected sign deploy';
 }
@@ -1,4 +1,6 @@
-export class RejectedSignMessageError extends Error {
+import { UserRejectedRequestError } from './UserRejectedRequestError';
+
+export class RejectedSignMessageError extends UserRejectedRequestError {
   public name: string = 'RejectedSignMessageError';
   public message: string = 'Rejected sign message';
 }
@@ -0,0 +1,4 @@
+export class RequestTimeoutError extends Error {
+  public name: string = 'RequestTimeoutError';
+  public message: string = 'Request timed out';
+}
@@ -0,0 +1,4 @@
+export class RpcUrlNotFoundError extends Error {
+  public name: string = 'RpcUrlNotFoundError';
+  public message: string = 'RPC URL not found, pass `rpcUrl` or set it in the client config';
+}
@@ -0,0 +1,19 @@
+import { SignInErrorCodeEnum } from '../enums/signIn';
+
+/* It's thrown when a Sign-In With Casper message can't be built, parsed or verified, `code` tells why */
+export class SignInError extends Error {
+  public name: string = 'SignInError';
+  public message: string = 'Invalid sign in message';
+  public code: SignInErrorCodeEnum = SignInErrorCodeEnum.INVALID_MESSAGE;
+
+  constructor({ code, message }: { code?: SignInErrorCodeEnum; message?: string } = {}) {
+    super(message);
+
+    if (code) {
+      this.code = code;
+    }
+    if (message) {
+      this.message = message;
+    }
+  }
+}
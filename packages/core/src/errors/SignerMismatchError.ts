@@ -0,0 +1,4 @@
+export class SignerMismatchError extends Error {
+  public name: string = 'SignerMismatchError';
+  public message: string = 'Signing public key does not match the account of the wallet';
+}
@@ -0,0 +1,5 @@
+/* It's the error of every request the user rejected in the wallet, whatever the connector */
+export class UserRejectedRequestError extends Error {
+  public name: string = 'UserRejectedRequestError';
+  public message: string = 'User rejected the request';
+}
@@ -0,0 +1,4 @@
+export class WalletLockedError extends Error {
+  public name: string = 'WalletLockedError';
+  public message: string = 'Wallet is locked, please unlock it and try again';
+}
@@ -2,6 +2,27 @@ export * from './ConnectorNotFoundError';
 export * from './ConnectorAlreadyConnectedError';
 export * from './ClientNotFoundError';
 export * from './ProviderUrlDoesNotExistError';
+export * from './UserRejectedRequestError';
 export * from './RejectedSignDeployError';
 export * from './RejectedSignMessageError';
 export * from './ConnectorNotLedgerError';
+export * from './RequestTimeoutError';
+export * from './PopupClosedError';
+export * from './LedgerBusyError';
+export * from './LedgerError';
+export * from './LedgerNotConnectedError';
+export * from './LedgerUserRejectedError';
+export * from './LedgerLockedError';
+export * from './LedgerWrongAppError';
+export * from './LedgerDataInvalidError';
+export * from './LedgerDeployTooLargeError';
+export * from './LedgerWasmSigningDisabledError';
+export * from './WalletLockedError';
+export * from './SignerMismatchError';
+export * from './SignInError';
+export * from './ChainNameNotFoundError';
+export * from './InvalidHashError';
+export * from './RpcUrlNotFoundError';
+export * from './DeployTimeoutError';
+export * from './DeploySubmissionError';
+export * from './DeployExecutionError';
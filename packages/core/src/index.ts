@@ -1,5 +1,7 @@
 export * from './actions/account';
 export * from './actions/signing';
+export * from './actions/connector';
+export * from './actions/deploy';
 
 export * from './connectors';
 
@@ -10,3 +12,4 @@ export * from './enums';
 export * from './errors';
 
 export type { Deploy } from './types/deploy';
+export type { LedgerDeviceStatus } from './types/casperLedgerConnector';
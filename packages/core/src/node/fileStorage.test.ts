@@ -0,0 +1,47 @@
+// @vitest-environment node
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+
+import { createFileStorage } from './fileStorage';
+
+describe('createFileStorage', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'usewallet-'));
+    path = join(dir, 'storage.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should return null when the file does not exist', () => {
+    const storage = createFileStorage({ path });
+
+    expect(storage.getItem('wallet')).toBeNull();
+  });
+
+  it('should persist the items as JSON in the file', () => {
+    const storage = createFileStorage({ path });
+
+    storage.setItem('wallet', 'nodeSigner');
+
+    expect(createFileStorage({ path }).getItem('wallet')).toEqual('nodeSigner');
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual({ 'casperdash-usewallet.wallet': '"nodeSigner"' });
+  });
+
+  it('should remove the item when it is set to null', () => {
+    const storage = createFileStorage({ path, key: 'bot' });
+    storage.setItem('wallet', 'nodeSigner');
+
+    storage.setItem('wallet', null);
+
+    expect(storage.getItem('wallet')).toBeNull();
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual({});
+  });
+});
@@ -0,0 +1,42 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+
+import { ClientStorage, createStorage } from '../utils/storage';
+
+/**
+ * It reads the JSON file as a key/value record, treating a missing file as empty
+ * @param {string} path - The path of the JSON file.
+ * @returns The record stored in the file.
+ */
+const readRecord = (path: string): Record<string, string> => {
+  if (!existsSync(path)) {
+    return {};
+  }
+
+  const content = readFileSync(path, 'utf8');
+
+  return content ? JSON.parse(content) : {};
+};
+
+/**
+ * It creates a `ClientStorage` that persists the client state in a JSON file, for Node.js environments
+ * without `window.localStorage`
+ * @param {string} path - The path of the JSON file.
+ * @param {string} key - The prefix of the stored keys.
+ * @returns A `ClientStorage`.
+ */
+export const createFileStorage = ({ path, key }: { path: string; key?: string }): ClientStorage => {
+  return createStorage({
+    key,
+    storage: {
+      getItem: (itemKey: string) => readRecord(path)[itemKey] ?? null,
+      setItem: (itemKey: string, value: string) => {
+        writeFileSync(path, JSON.stringify({ ...readRecord(path), [itemKey]: value }, null, 2));
+      },
+      removeItem: (itemKey: string) => {
+        const record = readRecord(path);
+        delete record[itemKey];
+        writeFileSync(path, JSON.stringify(record, null, 2));
+      },
+    },
+  });
+};
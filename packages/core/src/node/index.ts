@@ -0,0 +1,2 @@
+export * from './fileStorage';
+export * from './nodeSigner';
@@ -0,0 +1,96 @@
+// @vitest-environment node
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { describe, expect, it, afterEach, vi } from 'vitest';
+import { encodeBase16, Keys } from 'casper-js-sdk';
+
+import { connect } from '../actions/account/connect';
+import { StatusEnum } from '../enums';
+import { Client } from '../utils/client';
+
+import { createFileStorage } from './fileStorage';
+import { NodeSignerConnector } from './nodeSigner';
+
+describe('NodeSignerConnector', () => {
+  afterEach(() => {
+    delete process.env.CASPER_PRIVATE_KEY;
+  });
+
+  it('should load the private key from a PEM file', async () => {
+    const keyPair = Keys.Secp256K1.new();
+    const dir = mkdtempSync(join(tmpdir(), 'usewallet-'));
+    const privateKeyPath = join(dir, 'secret_key.pem');
+    writeFileSync(privateKeyPath, keyPair.exportPrivateKeyInPem());
+
+    const connector = new NodeSignerConnector({ options: { privateKeyPath } });
+    await connector.connect();
+
+    expect(connector.id).toBe('nodeSigner');
+    expect(await connector.getActivePublicKey()).toEqual(keyPair.publicKey.toHex(false));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should load a PEM private key with escaped new lines from the environment', async () => {
+    const keyPair = Keys.Ed25519.new();
+    process.env.CASPER_PRIVATE_KEY = keyPair.exportPrivateKeyInPem().replace(/\r?\n/g, '\\n');
+
+    const connector = new NodeSignerConnector();
+    await connector.connect();
+
+    expect(await connector.getActivePublicKey()).toEqual(keyPair.publicKey.toHex(false));
+  });
+
+  it('should load a raw hex private key from a custom environment variable', async () => {
+    const keyPair = Keys.Ed25519.new();
+    process.env.BOT_KEY = encodeBase16(keyPair.privateKey);
+
+    const connector = new NodeSignerConnector({ options: { privateKeyEnv: 'BOT_KEY' } });
+    await connector.connect();
+
+    expect(await connector.getActivePublicKey()).toEqual(keyPair.publicKey.toHex(false));
+    delete process.env.BOT_KEY;
+  });
+
+  it('should throw an error on connect if no private key is found', async () => {
+    const connector = new NodeSignerConnector();
+
+    expect(await connector.isConnected()).toBe(false);
+    await expect(connector.connect()).rejects.toThrowError('CASPER_PRIVATE_KEY');
+  });
+
+  it('should be connected while the private key can be read, until disconnected', async () => {
+    process.env.CASPER_PRIVATE_KEY = encodeBase16(Keys.Ed25519.new().privateKey);
+    const connector = new NodeSignerConnector();
+
+    expect(await connector.isConnected()).toBe(true);
+
+    await connector.disconnect();
+    expect(await connector.isConnected()).toBe(false);
+
+    await connector.connect();
+    expect(await connector.isConnected()).toBe(true);
+  });
+
+  it('should be reconnected by a new client with autoConnect and the same storage', async () => {
+    const keyPair = Keys.Ed25519.new();
+    process.env.CASPER_PRIVATE_KEY = encodeBase16(keyPair.privateKey);
+    const dir = mkdtempSync(join(tmpdir(), 'usewallet-'));
+    const path = join(dir, 'client.json');
+
+    const connector = new NodeSignerConnector();
+    await connect({ connector, client: new Client({ connectors: [connector], storage: createFileStorage({ path }) }) });
+
+    const client = new Client({
+      connectors: [new NodeSignerConnector()],
+      autoConnect: true,
+      storage: createFileStorage({ path }),
+    });
+
+    await vi.waitFor(() => expect(client.status).toBe(StatusEnum.CONNECTED));
+    expect(client.connector?.id).toBe('nodeSigner');
+    expect(client.data?.activeKey).toEqual(keyPair.publicKey.toHex(false));
+    rmSync(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,104 @@
+import { readFileSync } from 'fs';
+
+import { Keys } from 'casper-js-sdk';
+
+import { LocalKeyConnector } from '../connectors/localKey';
+import { KeyPairParams, loadKeyPair } from '../utils/keys';
+
+export type NodeSignerConnectorOptions = {
+  name?: string;
+  privateKeyPath?: string;
+  privateKeyEnv?: string;
+  algorithm?: Keys.SignatureAlgorithm;
+};
+
+/**
+ * It turns the content of a key file or variable into key pair params, accepting a PEM or a raw hex
+ * private key. Escaped new lines of single line environment variables are restored.
+ * @param {string} content - The content of the key.
+ * @param {Keys.SignatureAlgorithm} algorithm - The algorithm of the key.
+ * @returns The key pair params.
+ */
+const toKeyPairParams = (content: string, algorithm?: Keys.SignatureAlgorithm): KeyPairParams => {
+  const key = content.replace(/\\n/g, '\n').trim();
+
+  return key.includes('-----BEGIN')
+    ? { privateKeyPem: key, algorithm }
+    : { privateKeyHex: key, algorithm };
+};
+
+/**
+ * It reads the private key from the file or the environment variable of the options
+ * @param {NodeSignerConnectorOptions} options - The options of the connector.
+ * @returns The key pair params.
+ */
+const readKeyPairParams = ({ privateKeyPath, privateKeyEnv, algorithm }: NodeSignerConnectorOptions): KeyPairParams => {
+  if (privateKeyPath) {
+    return toKeyPairParams(readFileSync(privateKeyPath, 'utf8'), algorithm);
+  }
+
+  const content = privateKeyEnv ? process.env[privateKeyEnv] : undefined;
+  if (!content) {
+    throw new Error(`Private key not found, set \`privateKeyPath\` or the \`${privateKeyEnv ?? ''}\` environment variable`);
+  }
+
+  return toKeyPairParams(content, algorithm);
+};
+
+/**
+ * It's a connector that signs with a private key read from a secrets file or an environment variable, for
+ * Node.js. The key is read on first use, and the connector counts as connected whenever it can be read until
+ * `disconnect()`, so that a client with `autoConnect` reconnects it.
+ */
+export class NodeSignerConnector extends LocalKeyConnector {
+  public readonly id: string = 'nodeSigner';
+  private readonly keyOptions: NodeSignerConnectorOptions;
+  private isDisconnected: boolean = false;
+
+  constructor({
+    options: defaultOptions,
+  }: { options?: NodeSignerConnectorOptions } = {}) {
+    const options = {
+      name: 'NodeSigner',
+      privateKeyEnv: 'CASPER_PRIVATE_KEY',
+      ...defaultOptions,
+    };
+
+    super({ options: { name: options.name } });
+    this.keyOptions = options;
+  }
+
+  /**
+   * It checks that the private key can be read, unless the connector was disconnected
+   * @returns Whether the connector is connected.
+   */
+  public async isConnected(): Promise<boolean> {
+    if (this.isDisconnected) {
+      return false;
+    }
+
+    try {
+      await this.getProvider();
+
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  public async connect(): Promise<void> {
+    this.isDisconnected = false;
+
+    await super.connect();
+  }
+
+  public async disconnect(): Promise<void> {
+    this.isDisconnected = true;
+
+    await super.disconnect();
+  }
+
+  protected readKeyPair(): Keys.AsymmetricKey {
+    return loadKeyPair(readKeyPairParams(this.keyOptions));
+  }
+}
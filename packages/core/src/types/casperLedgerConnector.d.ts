@@ -1,4 +1,19 @@
+export type LedgerDeviceStatus = {
+  isDeviceConnected: boolean;
+  isDeviceLocked: boolean;
+  isAppOpen: boolean;
+  appName?: string;
+  appVersion?: string;
+  requiredAppVersion: string;
+  isAppVersionSupported: boolean;
+};
+
 export type CasperLedgerConnector = {
-  getAccountIndex: () => string;
+  getAccountIndex: () => string | undefined;
+  getAccountPath: () => string;
+  setAccountIndex: (index: string | undefined, path?: string, publicKey?: string) => void;
+  resolvePath: (indexOrPath: string, pathTemplate?: string) => string;
   getPublicKey: (index: string) => Promise<string>;
+  verifyAddress: (index: string) => Promise<string>;
+  getDeviceStatus: () => Promise<LedgerDeviceStatus>;
 };
@@ -3,8 +3,10 @@ import { describe, expect, it, beforeEach, vi } from 'vitest';
 import { CasperDashConnector, CasperSignerConnector, Connector } from '../connectors';
 import { StatusEnum } from '../enums';
 import { ClientNotFoundError } from '../errors';
+import { CasperWalletProvider } from '../types/casperWalletProvider';
 
 import { Client, ClientConfig, createClient, getClient, StateParams } from './client';
+import { announceProvider } from './discovery';
 
 
 describe('getClient', () => {
@@ -105,6 +107,96 @@ describe('Client', () => {
     });
   });
 
+  describe('connector events', () => {
+    it('should update the state on events of the active connector', () => {
+      const connector = new CasperDashConnector();
+      client.setState((x: StateParams) => ({ ...x, connector }));
+
+      connector.emit('connect', { activeKey: 'publicKey' });
+
+      expect(client.status).toEqual(StatusEnum.CONNECTED);
+      expect(client.data).toEqual({ activeKey: 'publicKey' });
+
+      connector.emit('disconnect');
+
+      expect(client.status).toEqual(StatusEnum.DISCONNECTED);
+      expect(client.connector).toBeUndefined();
+    });
+
+    it('should ignore events of a previously active connector', () => {
+      const prevConnector = new CasperDashConnector();
+      const connector = new CasperSignerConnector();
+      client.setState((x: StateParams) => ({ ...x, connector: prevConnector }));
+      client.setState((x: StateParams) => ({ ...x, connector }));
+
+      prevConnector.emit('connect', { activeKey: 'publicKey' });
+
+      expect(prevConnector.listenerCount('connect')).toEqual(0);
+      expect(connector.listenerCount('connect')).toEqual(1);
+      expect(client.status).toEqual(StatusEnum.DISCONNECTED);
+      expect(client.data).toBeUndefined();
+    });
+  });
+
+  describe('wallet discovery', () => {
+    const detail = {
+      info: { uuid: 'uuid', name: 'Test Wallet', icon: 'data:image/svg+xml,', rdns: 'com.example.wallet' },
+      provider: { isConnected: vi.fn().mockResolvedValue(true) } as unknown as CasperWalletProvider,
+    };
+
+    it('should add a connector for a wallet announced before the client is created', () => {
+      const stopAnnouncing = announceProvider(detail);
+      const discoveryClient = new Client({ connectors: mockConnectors });
+      stopAnnouncing();
+
+      expect(discoveryClient.discoveredWallets).toHaveLength(1);
+      expect(discoveryClient.discoveredWallets?.[0]?.id).toEqual('com.example.wallet');
+      expect(discoveryClient.discoveredWallets?.[0]?.info).toEqual(detail.info);
+      expect(discoveryClient.connectors?.[0]).toBe(discoveryClient.discoveredWallets?.[0]);
+      expect(discoveryClient.connectors?.slice(1)).toEqual(mockConnectors);
+    });
+
+    it('should add a wallet announced after the client is created only once', () => {
+      const discoveryClient = new Client({ connectors: mockConnectors });
+
+      const stopAnnouncing = announceProvider(detail);
+      announceProvider(detail)();
+      stopAnnouncing();
+
+      expect(discoveryClient.discoveredWallets).toHaveLength(1);
+      expect(discoveryClient.connectors).toHaveLength(mockConnectors.length + 1);
+    });
+
+    it('should not replace a configured connector with the id of an announced wallet', () => {
+      const discoveryClient = new Client({ connectors: mockConnectors });
+
+      announceProvider({ ...detail, info: { ...detail.info, rdns: 'casperDash' } })();
+
+      expect(discoveryClient.discoveredWallets).toBeUndefined();
+      expect(discoveryClient.connectors).toEqual(mockConnectors);
+      expect(discoveryClient.connectors?.[0]).toBeInstanceOf(CasperDashConnector);
+    });
+
+    it('should stop listening to announcements once destroyed', () => {
+      const discoveryClient = new Client({ connectors: mockConnectors });
+      discoveryClient.destroy();
+
+      announceProvider(detail)();
+
+      expect(discoveryClient.discoveredWallets).toBeUndefined();
+      expect(discoveryClient.connectors).toEqual(mockConnectors);
+    });
+
+    it('should not listen to announcements when discovery is disabled', () => {
+      const discoveryClient = new Client({ connectors: mockConnectors, discovery: false });
+
+      announceProvider(detail)();
+
+      expect(discoveryClient.discoveredWallets).toBeUndefined();
+      expect(discoveryClient.connectors).toEqual(mockConnectors);
+    });
+  });
+
   describe('get connector', () => {
     it('should return the connector from the store', () => {
       expect(client.connector).toEqual(undefined);
@@ -3,11 +3,12 @@ import { createStore, Mutate, StoreApi } from 'zustand/vanilla';
 import { subscribeWithSelector } from 'zustand/middleware';
 
 import { Connector, ConnectorData } from '../connectors/base';
+import { DiscoveredWalletConnector } from '../connectors/discoveredWallet';
 import { StatusEnum } from '../enums';
 import { ClientNotFoundError } from '../errors';
 
+import { requestProviders, WalletProviderDetail } from './discovery';
 import { ClientStorage, createStorage, noopStorage } from './storage';
-import { maybeParseDetailEvent } from './parser';
 
 export type StateParams = {
   connectors: Connector[];
@@ -15,15 +16,24 @@ export type StateParams = {
   data?: ConnectorData;
   status?: StatusEnum;
   autoConnect?: boolean;
+  discoveredWallets?: DiscoveredWalletConnector[];
 };
 
 
 export type ClientConfig = StateParams & {
   storage?: ClientStorage;
+  discovery?: boolean;
+  /* The chain name of the deploys built by the client, e.g. `casper` or `casper-test` */
+  chainName?: string;
+  /* The JSON-RPC endpoint of the node the deploys are sent to, e.g. `http://localhost:7777/rpc` */
+  rpcUrl?: string;
 };
 
 /* It's a wrapper around a state management library called Zustand */
 export class Client {
+  public readonly chainName?: string;
+  public readonly rpcUrl?: string;
+
   private store: Mutate<
   StoreApi<StateParams>,
   [
@@ -34,10 +44,14 @@ export class Client {
   private isAutoConnecting?: boolean;
   private lastUsedConnector?: string | null;
   private storage?: ClientStorage;
+  private stopDiscovery?: () => void;
 
   constructor({
     autoConnect = false,
+    chainName,
     connectors,
+    discovery = true,
+    rpcUrl,
     storage = createStorage({
       storage:
         typeof window !== 'undefined' ? window.localStorage : noopStorage,
@@ -52,6 +66,12 @@ export class Client {
     this.triggerEvent();
     this.lastUsedConnector = storage.getItem('wallet');
     this.storage = storage;
+    this.chainName = chainName;
+    this.rpcUrl = rpcUrl;
+
+    if (discovery) {
+      this.triggerDiscovery();
+    }
 
     void this.triggerAutoConnect(autoConnect, connectors);
   }
@@ -72,6 +92,10 @@ export class Client {
     return this.store.subscribe;
   }
 
+  public get discoveredWallets(): DiscoveredWalletConnector[] | undefined {
+    return this.store.getState().discoveredWallets;
+  }
+
   public get data() {
     return this.store.getState().data;
   }
@@ -93,6 +117,15 @@ export class Client {
     }));
   }
 
+  /**
+   * It stops listening to the wallet announcements, to drop a client, e.g. when several clients are
+   * created or between tests.
+   */
+  public destroy() {
+    this.stopDiscovery?.();
+    this.stopDiscovery = undefined;
+  }
+
   public setState(
     updater:
     | Partial<StateParams>
@@ -158,6 +191,7 @@ export class Client {
             connector,
             data: {
               ...x.data,
+              ...connector.getData?.(),
               activeKey: publicKey,
             },
           }));
@@ -183,7 +217,7 @@ export class Client {
   }
 
   private async triggerAutoConnect(autoConnect: boolean, connectors: Connector[]) {
-    if (autoConnect && typeof window !== 'undefined') {
+    if (autoConnect) {
       let x = 0;
       const intervalID = setInterval(async () => {
         let isReady = false;
@@ -205,17 +239,42 @@ export class Client {
 
         if (++x === 5 || isReady) {
           setTimeout(async () => this.autoConnect(), 0);
-          window?.clearInterval(intervalID);
+          clearInterval(intervalID);
         }
       }, 100);
     }
   }
 
-  private triggerEvent(): void {
-    if (typeof window === 'undefined') {
-      return;
-    }
+  /**
+   * It asks the installed wallets to announce themselves and adds a connector for each of them, in front
+   * of the configured connectors which stay as fallbacks for the wallets that do not announce. An
+   * announcement is ignored when a connector already has its `rdns` as id, so it can not replace one.
+   */
+  private triggerDiscovery(): void {
+    this.stopDiscovery = requestProviders((detail: WalletProviderDetail) => {
+      if (this.connectors?.some((item: Connector) => item.id === detail.info.rdns)) {
+        return;
+      }
 
+      const connector = new DiscoveredWalletConnector({ detail });
+      this.setState((x: StateParams) => ({
+        ...x,
+        connectors: [connector, ...x.connectors],
+        discoveredWallets: [...x.discoveredWallets ?? [], connector],
+      }));
+
+      /* The announcement means the wallet is ready, so reconnect to it without waiting for the polling. */
+      if (this.state.autoConnect && this.lastUsedConnector === connector.id) {
+        void this.autoConnect();
+      }
+    });
+  }
+
+  /**
+   * It listens to the events of the active connector, and moves the listeners over whenever the
+   * active connector changes so that an inactive wallet can not mutate the state.
+   */
+  private triggerEvent(): void {
     /**
      * It sets the state of the component.
      * @param {ConnectorData} data - ConnectorData - The data that is passed to the connector.
@@ -231,7 +290,7 @@ export class Client {
     /**
      * It clears the state of the component.
      */
-    const onUnlock = async ({ isUnlocked }: { isUnlocked: boolean; isConnected:boolean }) => {
+    const onUnlock = async ({ isUnlocked }: { isUnlocked: boolean; isConnected?: boolean }) => {
       if (!isUnlocked) {
         return;
       }
@@ -261,27 +320,24 @@ export class Client {
       }));
     };
 
-    window?.addEventListener('casper:change',
-      async (event: CustomEventInit<{ activeKey: string; isConnected: boolean }>) => onChange(maybeParseDetailEvent(event.detail!)));
-    window?.addEventListener('casper:disconnect', () => onDisconnect());
-    window?.addEventListener('casper:connect',
-      (event: CustomEventInit<{ activeKey: string; isConnected: boolean }>) => onConnect(maybeParseDetailEvent(event.detail!)));
-    window?.addEventListener('casper:unlocked',
-      async (event: CustomEventInit<{ isUnlocked: boolean; isConnected: boolean }>) => onUnlock(maybeParseDetailEvent(event.detail!)));
-
-    // this.store.subscribe(
-    //   ({ connector }: StateParams) => connector!,
-    //   (connector: Connector, prevConnector: Connector) => {
-    //     prevConnector?.off?.('change', console.log);
-    //     prevConnector?.off?.('disconnect', console.log);
-    //     prevConnector?.off?.('error', console.log);
-
-    //     if (!connector) return;
-    //     connector.on?.('change', console.log);
-    //     connector.on?.('disconnect', console.log);
-    //     connector.on?.('error', console.log);
-    //   },
-    // );
+    this.store.subscribe(
+      ({ connector }: StateParams) => connector,
+      (connector?: Connector, prevConnector?: Connector) => {
+        prevConnector?.off?.('change', onChange);
+        prevConnector?.off?.('connect', onConnect);
+        prevConnector?.off?.('disconnect', onDisconnect);
+        prevConnector?.off?.('unlock', onUnlock);
+
+        if (!connector) {
+          return;
+        }
+
+        connector.on?.('change', onChange);
+        connector.on?.('connect', onConnect);
+        connector.on?.('disconnect', onDisconnect);
+        connector.on?.('unlock', onUnlock);
+      },
+    );
   }
 
   private async getPublicKeyFromConnector(connector?: Connector) {
@@ -1,6 +1,54 @@
-import { DeployUtil } from 'casper-js-sdk';
+import {
+  CLPublicKey,
+  CLValue,
+  decodeBase16,
+  DeployUtil,
+  GetDeployResult,
+  RuntimeArgs,
+} from 'casper-js-sdk';
+import { JsonTypes } from 'typedjson';
 
+import { DeployStatusEnum } from '../enums/deployStatus';
 import { DeployTypes } from '../enums/deployTypes';
+import { ChainNameNotFoundError } from '../errors/ChainNameNotFoundError';
+import { InvalidHashError } from '../errors/InvalidHashError';
+import { RpcUrlNotFoundError } from '../errors/RpcUrlNotFoundError';
+import { Deploy } from '../types/deploy';
+
+import { Client, getClient } from './client';
+
+export type DeployArgs = RuntimeArgs | Record<string, CLValue>;
+
+/* An amount in motes, as a decimal string, a number or a bigint */
+export type DeployAmount = string | number | bigint;
+
+export type BuildDeployParams = {
+  /* The hex public key of the account sending the deploy */
+  publicKey: string;
+  /* The chain name of the client config by default, the client is only needed without it */
+  chainName?: string;
+  paymentAmount: DeployAmount;
+  /* Time to live in milliseconds, 30 minutes by default */
+  ttl?: number;
+  gasPrice?: number;
+  dependencies?: Uint8Array[];
+  timestamp?: number;
+  client?: Client;
+};
+
+export type BuildDeployResult = { deploy: JsonTypes };
+
+export type DeployResult = {
+  deployHash: string;
+  status: DeployStatusEnum;
+  blockHash?: string;
+  /* The cost of the execution in motes */
+  cost?: string;
+  errorMessage?: string;
+};
+
+export const DEFAULT_DEPLOY_TTL = 30 * 60 * 1000;
+export const DEFAULT_GAS_PRICE = 1;
 
 export const getDeployType = (deploy: DeployUtil.Deploy) => {
   return deploy.isTransfer()
@@ -12,3 +60,113 @@ export const getDeployType = (deploy: DeployUtil.Deploy) => {
         ? DeployTypes.CONTRACT_CALL
         : DeployTypes.CONTRACT_PACKAGE_CALL;
 };
+
+/**
+ * It converts the args of a builder to `RuntimeArgs`.
+ * @param {DeployArgs} args - `RuntimeArgs` or a record of `CLValue`s.
+ * @returns The runtime args.
+ */
+export const toRuntimeArgs = (args: DeployArgs = {}): RuntimeArgs => {
+  return args instanceof RuntimeArgs ? args : RuntimeArgs.fromMap(args);
+};
+
+/**
+ * It decodes a contract or contract package hash, with or without its `hash-`, `contract-` or
+ * `contract-package-` prefix, or the `contract-wasm` and `contract-package-wasm` ones of the node JSON.
+ * @param {string} hash - The hex hash.
+ * @returns The hash bytes.
+ */
+export const toHashBytes = (hash: string): Uint8Array => {
+  const hexHash = hash.replace(/^(hash-|contract-package-wasm|contract-package-|contract-wasm|contract-)/, '');
+  if (!/^[0-9a-fA-F]{64}$/.test(hexHash)) {
+    throw new InvalidHashError();
+  }
+
+  return decodeBase16(hexHash);
+};
+
+/**
+ * It builds a deploy of the session with a standard payment, and returns it in the shape `sign()` expects.
+ * @param {BuildDeployParams & { session: DeployUtil.ExecutableDeployItem }}  - The session and the deploy params.
+ * @returns The deploy as JSON.
+ */
+export const buildDeploy = ({
+  session,
+  publicKey,
+  client,
+  chainName,
+  paymentAmount,
+  ttl = DEFAULT_DEPLOY_TTL,
+  gasPrice = DEFAULT_GAS_PRICE,
+  dependencies = [],
+  timestamp,
+}: BuildDeployParams & { session: DeployUtil.ExecutableDeployItem }): BuildDeployResult => {
+  const deployChainName = chainName ?? (client ?? getClient()).chainName;
+  if (!deployChainName) {
+    throw new ChainNameNotFoundError();
+  }
+
+  const deployParams = new DeployUtil.DeployParams(
+    CLPublicKey.fromHex(publicKey),
+    deployChainName,
+    gasPrice,
+    ttl,
+    dependencies,
+    timestamp,
+  );
+  const deploy = DeployUtil.makeDeploy(deployParams, session, DeployUtil.standardPayment(paymentAmount.toString()));
+
+  return DeployUtil.deployToJson(deploy);
+};
+
+/**
+ * It resolves the RPC URL of a deploy request, from the params or else from the client config.
+ * @param {string} rpcUrl - The RPC URL of the params.
+ * @param {Client} client - The client, only needed without `rpcUrl`.
+ * @returns The RPC URL.
+ */
+export const getRpcUrl = (rpcUrl?: string, client?: Client): string => {
+  const url = rpcUrl ?? (client ?? getClient()).rpcUrl;
+  if (!url) {
+    throw new RpcUrlNotFoundError();
+  }
+
+  return url;
+};
+
+/**
+ * It converts a deploy returned by `sign()` or built with `DeployUtil` to a `DeployUtil.Deploy`.
+ * @param {Deploy | DeployUtil.Deploy} deploy - The deploy.
+ * @returns The deploy.
+ */
+export const toDeployUtilDeploy = (deploy: Deploy | DeployUtil.Deploy): DeployUtil.Deploy => {
+  if (deploy instanceof DeployUtil.Deploy) {
+    return deploy;
+  }
+
+  return DeployUtil.deployFromJson(deploy as { deploy: JsonTypes }).unwrap();
+};
+
+/**
+ * It reads the status of a deploy from the result of `info_get_deploy`, pending until it is executed in a block.
+ * @param {string} deployHash - The hash of the deploy.
+ * @param {GetDeployResult} deployInfo - The result of `info_get_deploy`.
+ * @returns The result of the deploy.
+ */
+export const toDeployResult = (deployHash: string, { execution_results: executionResults }: GetDeployResult): DeployResult => {
+  const [executionResult] = executionResults ?? [];
+  if (!executionResult) {
+    return { deployHash, status: DeployStatusEnum.PENDING };
+  }
+
+  const { Success: success, Failure: failure } = executionResult.result;
+  const body = failure ?? success;
+
+  return {
+    deployHash,
+    status: failure ? DeployStatusEnum.FAILURE : DeployStatusEnum.SUCCESS,
+    blockHash: executionResult.block_hash,
+    cost: body?.cost !== undefined ? String(body.cost) : undefined,
+    errorMessage: failure?.error_message ?? undefined,
+  };
+};
@@ -0,0 +1,59 @@
+import { CasperWalletProvider } from '../types/casperWalletProvider';
+
+export const ANNOUNCE_PROVIDER_EVENT = 'casper:announceProvider';
+export const REQUEST_PROVIDER_EVENT = 'casper:requestProvider';
+
+export type WalletProviderInfo = {
+  uuid: string;
+  name: string;
+  icon: string;
+  rdns: string;
+  eventNamespace?: string;
+};
+
+export type WalletProviderDetail = {
+  info: WalletProviderInfo;
+  provider: CasperWalletProvider;
+};
+
+/**
+ * It listens to the wallets announcing themselves, then asks the installed wallets to announce
+ * @param listener - (detail: WalletProviderDetail) => void
+ * @returns A function that stops listening to the announcements.
+ */
+export const requestProviders = (listener: (detail: WalletProviderDetail) => void): () => void => {
+  if (typeof window === 'undefined') {
+    return () => undefined;
+  }
+
+  const handleAnnounce = (event: Event) => {
+    const { detail } = event as CustomEvent<WalletProviderDetail | undefined>;
+    if (!detail?.info?.rdns || !detail.provider) {
+      return;
+    }
+
+    listener(detail);
+  };
+
+  window.addEventListener(ANNOUNCE_PROVIDER_EVENT, handleAnnounce);
+  window.dispatchEvent(new Event(REQUEST_PROVIDER_EVENT));
+
+  return () => window.removeEventListener(ANNOUNCE_PROVIDER_EVENT, handleAnnounce);
+};
+
+/**
+ * It announces a wallet to the dapps, now and whenever a dapp requests the installed wallets.
+ * It is meant for wallets, and for tests.
+ * @param {WalletProviderDetail} detail - The metadata and the provider of the wallet.
+ * @returns A function that stops answering the requests.
+ */
+export const announceProvider = (detail: WalletProviderDetail): () => void => {
+  const announce = () => window.dispatchEvent(
+    new CustomEvent(ANNOUNCE_PROVIDER_EVENT, { detail: Object.freeze({ ...detail }) }),
+  );
+
+  announce();
+  window.addEventListener(REQUEST_PROVIDER_EVENT, announce);
+
+  return () => window.removeEventListener(REQUEST_PROVIDER_EVENT, announce);
+};
@@ -2,3 +2,10 @@ export * from './client';
 export * from './deepEqual';
 export * from './deploy';
 export * from './ledger';
+export * from './keys';
+export * from './discovery';
+export * from './requestTracker';
+export * from './storage';
+export * from './signing';
+export * from './message';
+export * from './signIn';
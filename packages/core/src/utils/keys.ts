@@ -0,0 +1,46 @@
+import { decodeBase16, Keys } from 'casper-js-sdk';
+
+export type KeyPairParams = {
+  privateKeyPem?: string;
+  privateKeyHex?: string;
+  algorithm?: Keys.SignatureAlgorithm;
+};
+
+/**
+ * It builds a key pair from a raw private key for the given algorithm
+ * @param {Uint8Array} privateKey - The raw private key bytes.
+ * @param {Keys.SignatureAlgorithm} algorithm - The algorithm of the private key.
+ * @returns The key pair.
+ */
+const fromRawPrivateKey = (privateKey: Uint8Array, algorithm: Keys.SignatureAlgorithm): Keys.AsymmetricKey => {
+  if (algorithm === Keys.SignatureAlgorithm.Secp256K1) {
+    return Keys.Secp256K1.parseKeyPair(Keys.Secp256K1.privateToPublicKey(privateKey), privateKey, 'raw');
+  }
+
+  return Keys.Ed25519.parseKeyPair(Keys.Ed25519.privateToPublicKey(privateKey), privateKey);
+};
+
+/**
+ * It loads a key pair from a PEM string or a raw hex private key, or generates a new one when neither is given.
+ * The algorithm of a PEM key is detected from its header when it is not passed.
+ * @param {KeyPairParams}  - `privateKeyPem`, `privateKeyHex` and `algorithm` of the key.
+ * @returns The key pair.
+ */
+export const loadKeyPair = ({ privateKeyPem, privateKeyHex, algorithm }: KeyPairParams = {}): Keys.AsymmetricKey => {
+  if (privateKeyPem) {
+    const pemAlgorithm = algorithm ??
+      (privateKeyPem.includes('EC PRIVATE KEY') ? Keys.SignatureAlgorithm.Secp256K1 : Keys.SignatureAlgorithm.Ed25519);
+
+    const privateKey = pemAlgorithm === Keys.SignatureAlgorithm.Secp256K1
+      ? Keys.Secp256K1.parsePrivateKey(Keys.Secp256K1.readBase64WithPEM(privateKeyPem), 'der')
+      : Keys.Ed25519.parsePrivateKey(Keys.Ed25519.readBase64WithPEM(privateKeyPem));
+
+    return fromRawPrivateKey(privateKey, pemAlgorithm);
+  }
+
+  if (privateKeyHex) {
+    return fromRawPrivateKey(decodeBase16(privateKeyHex), algorithm ?? Keys.SignatureAlgorithm.Ed25519);
+  }
+
+  return algorithm === Keys.SignatureAlgorithm.Secp256K1 ? Keys.Secp256K1.new() : Keys.Ed25519.new();
+};
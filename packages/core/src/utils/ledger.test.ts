@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import {
+  LedgerEnum, LedgerErrorCodeEnum, LedgerPathTemplateEnum, LedgerStatusCodeEnum,
+} from '@casperdash/usewallet-core/enums';
+import {
+  LedgerDataInvalidError,
+  LedgerDeployTooLargeError,
+  LedgerError,
+  LedgerLockedError,
+  LedgerNotConnectedError,
+  LedgerUserRejectedError,
+  LedgerWasmSigningDisabledError,
+  LedgerWrongAppError,
+} from '@casperdash/usewallet-core/errors';
+
+import {
+  getLedgerError, getLedgerPath, isLedgerPath, resolveLedgerPath, toLedgerError,
+} from './ledger';
+
+describe('toLedgerError', () => {
+  const error = { name: '', message: 'Something failed' };
+
+  it.each([
+    [LedgerStatusCodeEnum.TRANSACTION_REJECTED, LedgerUserRejectedError, LedgerErrorCodeEnum.USER_REJECTED],
+    [LedgerStatusCodeEnum.DEVICE_LOCKED, LedgerLockedError, LedgerErrorCodeEnum.LOCKED],
+    [LedgerStatusCodeEnum.APP_DOES_NOT_SEEM_TO_BE_OPEN, LedgerWrongAppError, LedgerErrorCodeEnum.WRONG_APP],
+    [LedgerStatusCodeEnum.CLA_NOT_SUPPORTED, LedgerWrongAppError, LedgerErrorCodeEnum.WRONG_APP],
+    [LedgerStatusCodeEnum.DATA_INVALID, LedgerDataInvalidError, LedgerErrorCodeEnum.DATA_INVALID],
+    [LedgerStatusCodeEnum.OUTPUT_BUFFER_TOO_SMALL, LedgerDeployTooLargeError, LedgerErrorCodeEnum.DEPLOY_TOO_LARGE],
+  ])('should map the status word %i', (statusCode: number, ErrorClass: typeof LedgerError, code: LedgerErrorCodeEnum) => {
+    const ledgerError = toLedgerError(error, statusCode);
+
+    expect(ledgerError).toBeInstanceOf(ErrorClass);
+    expect(ledgerError).toBeInstanceOf(LedgerError);
+    expect(ledgerError.code).toEqual(code);
+    expect(ledgerError.statusCode).toEqual(statusCode);
+  });
+
+  it('should map unsatisfied conditions to LedgerWasmSigningDisabledError only for WASM deploys', () => {
+    expect(toLedgerError(error, LedgerStatusCodeEnum.CONDITIONS_NOT_SATISFIED, { isWasm: true }))
+      .toBeInstanceOf(LedgerWasmSigningDisabledError);
+    expect(toLedgerError(error, LedgerStatusCodeEnum.CONDITIONS_NOT_SATISFIED).code).toEqual(LedgerErrorCodeEnum.UNKNOWN);
+  });
+
+  it('should map an unavailable transport to LedgerNotConnectedError', () => {
+    expect(toLedgerError({ name: 'TransportInterfaceNotAvailable', message: '' })).toBeInstanceOf(LedgerNotConnectedError);
+  });
+
+  it('should read the status code of transport errors', () => {
+    const transportError = Object.assign(new Error('Locked'), { statusCode: LedgerStatusCodeEnum.DEVICE_LOCKED });
+
+    expect(toLedgerError(transportError)).toBeInstanceOf(LedgerLockedError);
+  });
+
+  it('should keep the message of unknown errors', () => {
+    const ledgerError = toLedgerError(error, 0x6f00);
+
+    expect(ledgerError.code).toEqual(LedgerErrorCodeEnum.UNKNOWN);
+    expect(ledgerError.message).toEqual('Something failed');
+    expect(getLedgerError(error as Error, 0x6f00)).toEqual('Something failed');
+  });
+});
+
+describe('getLedgerPath', () => {
+  it('should vary the address index by default', () => {
+    expect(getLedgerPath('3')).toEqual('m/44\'/506\'/0\'/0/3');
+  });
+
+  it('should fill the index of the path template', () => {
+    expect(getLedgerPath('3', LedgerPathTemplateEnum.ACCOUNT_INDEX)).toEqual('m/44\'/506\'/3\'/0/0');
+  });
+
+  it('should append the index to a template without placeholder', () => {
+    expect(getLedgerPath('3', LedgerEnum.CASPER_KEY_PATH)).toEqual('m/44\'/506\'/0\'/0/3');
+  });
+});
+
+describe('resolveLedgerPath', () => {
+  it('should keep a full derivation path', () => {
+    expect(isLedgerPath('m/44\'/506\'/2\'/0/0')).toBe(true);
+    expect(resolveLedgerPath('m/44\'/506\'/2\'/0/0', LedgerPathTemplateEnum.ADDRESS_INDEX)).toEqual('m/44\'/506\'/2\'/0/0');
+  });
+
+  it('should resolve an index with the path template', () => {
+    expect(isLedgerPath('2')).toBe(false);
+    expect(resolveLedgerPath('2', LedgerPathTemplateEnum.ACCOUNT_INDEX)).toEqual('m/44\'/506\'/2\'/0/0');
+  });
+});
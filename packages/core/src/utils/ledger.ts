@@ -1,22 +1,112 @@
-import { LedgerEnum } from '../enums/ledger';
+import { LedgerPathTemplateEnum, LedgerStatusCodeEnum } from '../enums/ledger';
+import {
+  LedgerDataInvalidError,
+  LedgerDeployTooLargeError,
+  LedgerError,
+  LedgerLockedError,
+  LedgerNotConnectedError,
+  LedgerUserRejectedError,
+  LedgerWasmSigningDisabledError,
+  LedgerWrongAppError,
+} from '../errors';
 
 export const CONNECT_ERROR_MESSAGE = 'You must open the Casper app on your Ledger device to connect.';
 
+const NOT_CONNECTED_ERROR_NAMES = [
+  'TransportInterfaceNotAvailable',
+  'TransportOpenUserCancelled',
+  'DisconnectedDevice',
+  'DisconnectedDeviceDuringOperation',
+];
+
+/**
+ * It maps an error of the transport, or the status word returned by the device, to a typed Ledger error
+ * @param {object} error - The error, or the `errorMessage` of the response.
+ * @param {number} code - The status word returned by the device.
+ * @param {object}  - `isWasm` - whether a WASM deploy was being signed.
+ * @returns The Ledger error.
+ */
+export const toLedgerError = (
+  error: Pick<Error, 'name' | 'message'>,
+  code?: number,
+  { isWasm = false }: { isWasm?: boolean } = {},
+): LedgerError => {
+  if (error instanceof LedgerError) {
+    return error;
+  }
+  const { statusCode = code } = error as { statusCode?: number };
+
+  if (NOT_CONNECTED_ERROR_NAMES.includes(error.name)) {
+    return new LedgerNotConnectedError({ statusCode });
+  }
+
+  switch (statusCode) {
+    case LedgerStatusCodeEnum.TRANSACTION_REJECTED:
+      return new LedgerUserRejectedError({ statusCode });
+    case LedgerStatusCodeEnum.DEVICE_LOCKED:
+      return new LedgerLockedError({ statusCode });
+    case LedgerStatusCodeEnum.APP_NOT_OPEN:
+    case LedgerStatusCodeEnum.INSTRUCTION_NOT_SUPPORTED:
+    case LedgerStatusCodeEnum.APP_DOES_NOT_SEEM_TO_BE_OPEN:
+    case LedgerStatusCodeEnum.CLA_NOT_SUPPORTED:
+      return new LedgerWrongAppError({ statusCode });
+    case LedgerStatusCodeEnum.DATA_INVALID:
+      return new LedgerDataInvalidError({ statusCode });
+    case LedgerStatusCodeEnum.OUTPUT_BUFFER_TOO_SMALL:
+      return new LedgerDeployTooLargeError({ statusCode });
+    case LedgerStatusCodeEnum.CONDITIONS_NOT_SATISFIED:
+      if (isWasm) {
+        return new LedgerWasmSigningDisabledError({ statusCode });
+      }
+      break;
+    default:
+      break;
+  }
+
+  return new LedgerError({ message: error.message, statusCode });
+};
+
 /**
  * Get Ledger error message
  * @param {object} error
  * @param {number} code
  */
 export const getLedgerError = (error: Error, code?: number) => {
-  if ('TransportInterfaceNotAvailable' === error.name || code === 27014) {
-    return CONNECT_ERROR_MESSAGE;
-  }
-  if (code === 27012) {
-    return 'Unsupported Deploy';
+  return toLedgerError(error, code).message;
+};
+
+const LEDGER_PATH_REGEX = /^m(\/\d+'?)+$/;
+
+/**
+ * It checks whether the value is a full derivation path, e.g. `m/44'/506'/0'/0/0`
+ * @param {string} value - The value to check.
+ * @returns true if the value is a derivation path.
+ */
+export const isLedgerPath = (value: string): boolean => {
+  return LEDGER_PATH_REGEX.test(value);
+};
+
+/**
+ * It returns the derivation path of the account at `index`. The `{index}` of the template is replaced by
+ * the index, and a template without it is used as a prefix.
+ * @param {string} index - The index of the account.
+ * @param {string} pathTemplate - The derivation path scheme, `m/44'/506'/0'/0/{index}` by default.
+ * @returns The derivation path.
+ */
+export const getLedgerPath = (index: string, pathTemplate: string = LedgerPathTemplateEnum.ADDRESS_INDEX) => {
+  if (!pathTemplate.includes('{index}')) {
+    return `${pathTemplate}${index}`;
   }
-  return error.message;
+
+  return pathTemplate.replace('{index}', index);
 };
 
-export const getLedgerPath = (index: string) => {
-  return `${LedgerEnum.CASPER_KEY_PATH}${index}`;
+/**
+ * It returns the value when it's already a full derivation path, or the path of the account at this index
+ * @param {string} indexOrPath - The index of the account, or its derivation path.
+ * @param {string} pathTemplate - The derivation path scheme.
+ * @returns The derivation path.
+ */
+export const resolveLedgerPath = (indexOrPath: string, pathTemplate?: string) => {
+  return isLedgerPath(indexOrPath) ? indexOrPath : getLedgerPath(indexOrPath, pathTemplate);
 };
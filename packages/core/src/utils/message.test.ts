@@ -0,0 +1,37 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { encodeBase16, formatMessageWithHeaders, Keys, signFormattedMessage } from 'casper-js-sdk';
+
+import { verifyMessageSignature } from './message';
+
+describe('verifyMessageSignature', () => {
+  const message = 'Sign in to example.com';
+
+  it.each([
+    ['ed25519', Keys.Ed25519.new()],
+    ['secp256k1', Keys.Secp256K1.new()],
+  ])('should verify a %s signature of the formatted message', (_algorithm: string, keyPair: Keys.AsymmetricKey) => {
+    const signature = encodeBase16(signFormattedMessage(keyPair, formatMessageWithHeaders(message)));
+    const publicKey = keyPair.publicKey.toHex();
+
+    expect(verifyMessageSignature({ message, signature, publicKey })).toBe(true);
+    expect(verifyMessageSignature({ message: 'Another message', signature, publicKey })).toBe(false);
+  });
+
+  it('should accept a signature prefixed with the algorithm tag', () => {
+    const keyPair = Keys.Secp256K1.new();
+    const signature = `02${encodeBase16(signFormattedMessage(keyPair, formatMessageWithHeaders(message)))}`;
+
+    expect(verifyMessageSignature({ message, signature, publicKey: keyPair.publicKey.toHex() })).toBe(true);
+  });
+
+  it('should reject a signature of another key', () => {
+    const signature = encodeBase16(signFormattedMessage(Keys.Ed25519.new(), formatMessageWithHeaders(message)));
+
+    expect(verifyMessageSignature({ message, signature, publicKey: Keys.Ed25519.new().publicKey.toHex() })).toBe(false);
+  });
+
+  it('should return false for malformed inputs', () => {
+    expect(verifyMessageSignature({ message, signature: 'zz', publicKey: '01abc' })).toBe(false);
+  });
+});
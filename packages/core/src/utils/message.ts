@@ -0,0 +1,33 @@
+import { CLPublicKey, decodeBase16, verifyMessageSignature as verifyCasperMessageSignature } from 'casper-js-sdk';
+
+export type VerifyMessageSignatureParams = {
+  message: string;
+  signature: string;
+  publicKey: string;
+};
+
+const SIGNATURE_LENGTH = 64;
+
+/**
+ * It verifies the hex signature of a message signed with the Casper message header, like the wallets and
+ * the Ledger connector do. The algorithm, ed25519 or secp256k1, is read from the `01`/`02` prefix of the
+ * public key, and a signature prefixed with the same tag is accepted too.
+ * @param {VerifyMessageSignatureParams}  - `message`, hex `signature` and hex `publicKey` of the signer.
+ * @returns true if the signature is valid, false otherwise or when the inputs are malformed.
+ */
+export const verifyMessageSignature = ({ message, signature, publicKey }: VerifyMessageSignatureParams): boolean => {
+  try {
+    const clPublicKey = CLPublicKey.fromHex(publicKey);
+    let signatureBytes = decodeBase16(signature);
+    if (signatureBytes.length === SIGNATURE_LENGTH + 1 && signatureBytes[0] === clPublicKey.tag) {
+      signatureBytes = signatureBytes.slice(1);
+    }
+    if (signatureBytes.length !== SIGNATURE_LENGTH) {
+      return false;
+    }
+
+    return verifyCasperMessageSignature(clPublicKey, message, signatureBytes);
+  } catch (error) {
+    return false;
+  }
+};
@@ -1,4 +1,8 @@
-export const maybeParseDetailEvent = (detail: Record<string, unknown> | string) => {
+export const maybeParseDetailEvent = (detail?: Record<string, unknown> | string) => {
+  if (!detail) {
+    return {};
+  }
+
   if (typeof detail === 'string') {
     return JSON.parse(detail);
   }
@@ -0,0 +1,91 @@
+import { RequestTimeoutError } from '../errors';
+
+type PendingRequest = {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  timeoutId?: ReturnType<typeof setTimeout>;
+};
+
+/* It keeps a promise per JSON-RPC request id, so that replies are matched with the request they answer */
+export class RequestTracker {
+  private nextRequestId: number = 0;
+  private pendingRequests: Map<number, PendingRequest> = new Map();
+
+  public get size(): number {
+    return this.pendingRequests.size;
+  }
+
+  /**
+   * It returns the id of the next request
+   * @returns The request id.
+   */
+  public nextId(): number {
+    this.nextRequestId = this.nextRequestId + 1;
+
+    return this.nextRequestId;
+  }
+
+  /**
+   * It returns a promise settled by the reply to the request, or rejected with a `RequestTimeoutError`
+   * when no reply comes in time
+   * @param {number} id - The id of the request.
+   * @param {number} timeout - The time to wait for the reply in milliseconds, no timeout when not given.
+   * @returns The result of the request.
+   */
+  public async track<T>(id: number, timeout?: number): Promise<T> {
+    return new Promise((resolve: (value: T) => void, reject: (error: Error) => void) => {
+      const pendingRequest: PendingRequest = { resolve: resolve as (value: unknown) => void, reject };
+      if (timeout) {
+        pendingRequest.timeoutId = setTimeout(() => this.reject(id, new RequestTimeoutError()), timeout);
+      }
+
+      this.pendingRequests.set(id, pendingRequest);
+    });
+  }
+
+  /**
+   * It resolves the request with the given id
+   * @param {number} id - The id of the request.
+   * @param {unknown} value - The result of the request.
+   * @returns true if the request was pending.
+   */
+  public resolve(id: number, value: unknown): boolean {
+    const pendingRequest = this.take(id);
+    pendingRequest?.resolve(value);
+
+    return !!pendingRequest;
+  }
+
+  /**
+   * It rejects the request with the given id
+   * @param {number} id - The id of the request.
+   * @param {Error} error - The error of the request.
+   * @returns true if the request was pending.
+   */
+  public reject(id: number, error: Error): boolean {
+    const pendingRequest = this.take(id);
+    pendingRequest?.reject(error);
+
+    return !!pendingRequest;
+  }
+
+  /**
+   * It rejects every pending request, e.g. when the wallet goes away
+   * @param {Error} error - The error of the requests.
+   */
+  public rejectAll(error: Error): void {
+    [...this.pendingRequests.keys()].forEach((id: number) => this.reject(id, error));
+  }
+
+  private take(id: number): PendingRequest | undefined {
+    const pendingRequest = this.pendingRequests.get(id);
+    if (!pendingRequest) {
+      return undefined;
+    }
+
+    clearTimeout(pendingRequest.timeoutId);
+    this.pendingRequests.delete(id);
+
+    return pendingRequest;
+  }
+}
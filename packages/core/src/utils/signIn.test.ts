@@ -0,0 +1,183 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { encodeBase16, formatMessageWithHeaders, Keys, signFormattedMessage } from 'casper-js-sdk';
+
+import { SignInErrorCodeEnum } from '../enums/signIn';
+import { SignInError } from '../errors/SignInError';
+
+import { createSignInMessage, generateNonce, parseSignInMessage, verifySignIn } from './signIn';
+
+describe('signIn', () => {
+  const keyPair = Keys.Ed25519.new();
+  const publicKey = keyPair.publicKey.toHex();
+  const fields = {
+    domain: 'example.com',
+    publicKey,
+    statement: 'Sign in to Example',
+    uri: 'https://example.com/login',
+    chainName: 'casper-test',
+    nonce: 'abcdef0123456789',
+    issuedAt: '2024-01-01T00:00:00.000Z',
+    expirationTime: '2024-01-01T01:00:00.000Z',
+    resources: ['https://example.com/terms'],
+  };
+  const sign = (message: string): string => {
+    return encodeBase16(signFormattedMessage(keyPair, formatMessageWithHeaders(message)));
+  };
+  const expectSignInError = (fn: () => unknown, code: SignInErrorCodeEnum) => {
+    try {
+      fn();
+    } catch (error) {
+      expect(error).toBeInstanceOf(SignInError);
+      expect((error as SignInError).code).toBe(code);
+
+      return;
+    }
+    throw new Error('Expected a SignInError');
+  };
+
+  describe('createSignInMessage', () => {
+    it('should create the message', () => {
+      expect(createSignInMessage(fields)).toBe([
+        'example.com wants you to sign in with your Casper account:',
+        publicKey,
+        '',
+        'Sign in to Example',
+        '',
+        'URI: https://example.com/login',
+        'Version: 1',
+        'Chain Name: casper-test',
+        'Nonce: abcdef0123456789',
+        'Issued At: 2024-01-01T00:00:00.000Z',
+        'Expiration Time: 2024-01-01T01:00:00.000Z',
+        'Resources:',
+        '- https://example.com/terms',
+      ].join('\n'));
+    });
+
+    it('should reject a multiline statement', () => {
+      expectSignInError(
+        () => createSignInMessage({ ...fields, statement: 'Sign in\n\nURI: https://evil.com' }),
+        SignInErrorCodeEnum.INVALID_MESSAGE,
+      );
+    });
+
+    it('should reject a short nonce', () => {
+      expectSignInError(() => createSignInMessage({ ...fields, nonce: 'abc' }), SignInErrorCodeEnum.INVALID_MESSAGE);
+    });
+  });
+
+  describe('parseSignInMessage', () => {
+    it('should parse a created message', () => {
+      expect(parseSignInMessage(createSignInMessage(fields))).toEqual({
+        ...fields,
+        version: '1',
+        notBefore: undefined,
+      });
+    });
+
+    it('should parse a message without the optional fields', () => {
+      const message = createSignInMessage({
+        domain: fields.domain,
+        publicKey,
+        uri: fields.uri,
+        chainName: fields.chainName,
+        nonce: fields.nonce,
+        issuedAt: new Date(fields.issuedAt),
+      });
+
+      expect(parseSignInMessage(message)).toEqual({
+        domain: fields.domain,
+        publicKey,
+        statement: undefined,
+        uri: fields.uri,
+        version: '1',
+        chainName: fields.chainName,
+        nonce: fields.nonce,
+        issuedAt: fields.issuedAt,
+        expirationTime: undefined,
+        notBefore: undefined,
+        resources: undefined,
+      });
+    });
+
+    it.each([
+      ['a message which is not a sign in message', 'Hello'],
+      ['an invalid public key', createSignInMessage(fields).replace(publicKey, '01abcd')],
+      ['a missing nonce', createSignInMessage(fields).replace('Nonce: abcdef0123456789\n', '')],
+      ['an invalid date', createSignInMessage(fields).replace('2024-01-01T00:00:00.000Z', 'yesterday')],
+      ['trailing content', `${createSignInMessage(fields)}\nextra`],
+    ])('should reject %s', (_case: string, message: string) => {
+      expectSignInError(() => parseSignInMessage(message), SignInErrorCodeEnum.INVALID_MESSAGE);
+    });
+  });
+
+  describe('verifySignIn', () => {
+    const message = createSignInMessage(fields);
+    const time = new Date('2024-01-01T00:30:00.000Z');
+
+    it('should return the fields of a valid sign in', () => {
+      expect(verifySignIn({
+        message,
+        signature: sign(message),
+        domain: 'example.com',
+        chainName: 'casper-test',
+        nonce: fields.nonce,
+        time,
+      })).toEqual(parseSignInMessage(message));
+    });
+
+    it('should reject a signature of another message', () => {
+      expectSignInError(
+        () => verifySignIn({ message, signature: sign('Another message'), time }),
+        SignInErrorCodeEnum.INVALID_SIGNATURE,
+      );
+    });
+
+    it('should reject another domain', () => {
+      expectSignInError(
+        () => verifySignIn({ message, signature: sign(message), domain: 'evil.com', time }),
+        SignInErrorCodeEnum.DOMAIN_MISMATCH,
+      );
+    });
+
+    it('should reject another chain', () => {
+      expectSignInError(
+        () => verifySignIn({ message, signature: sign(message), chainName: 'casper', time }),
+        SignInErrorCodeEnum.CHAIN_MISMATCH,
+      );
+    });
+
+    it('should reject another nonce', () => {
+      expectSignInError(
+        () => verifySignIn({ message, signature: sign(message), nonce: 'zyxwvuts98765432', time }),
+        SignInErrorCodeEnum.NONCE_MISMATCH,
+      );
+    });
+
+    it('should reject an expired message', () => {
+      expectSignInError(
+        () => verifySignIn({ message, signature: sign(message), time: new Date('2024-01-01T01:00:00.000Z') }),
+        SignInErrorCodeEnum.EXPIRED,
+      );
+    });
+
+    it('should reject a message which is not valid yet', () => {
+      const notBeforeMessage = createSignInMessage({ ...fields, notBefore: '2024-01-01T00:45:00.000Z' });
+
+      expectSignInError(
+        () => verifySignIn({ message: notBeforeMessage, signature: sign(notBeforeMessage), time }),
+        SignInErrorCodeEnum.NOT_YET_VALID,
+      );
+    });
+  });
+
+  describe('generateNonce', () => {
+    it('should generate distinct alphanumeric nonces', () => {
+      const nonce = generateNonce();
+
+      expect(nonce).toMatch(/^[a-zA-Z0-9]{16}$/);
+      expect(generateNonce()).not.toBe(nonce);
+    });
+  });
+});
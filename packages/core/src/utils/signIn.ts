@@ -0,0 +1,238 @@
+import { SignInErrorCodeEnum } from '../enums/signIn';
+import { SignInError } from '../errors/SignInError';
+
+import { verifyMessageSignature } from './message';
+
+export type SignInMessage = {
+  domain: string;
+  publicKey: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainName: string;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  resources?: string[];
+};
+
+export type CreateSignInMessageParams = Omit<SignInMessage, 'version' | 'issuedAt' | 'expirationTime' | 'notBefore'> & {
+  version?: string;
+  issuedAt?: string | Date;
+  expirationTime?: string | Date;
+  notBefore?: string | Date;
+};
+
+export type VerifySignInParams = {
+  message: string;
+  signature: string;
+  domain?: string;
+  chainName?: string;
+  nonce?: string;
+  time?: Date;
+};
+
+const SIGN_IN_VERSION = '1';
+const NONCE_LENGTH = 16;
+const NONCE_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+const HEADER_SUFFIX = ' wants you to sign in with your Casper account:';
+
+const PUBLIC_KEY_REGEX = /^(01[0-9a-fA-F]{64}|02[0-9a-fA-F]{66})$/;
+const NONCE_REGEX = /^[a-zA-Z0-9]{8,}$/;
+
+const toISOString = (date?: string | Date): string | undefined => {
+  return date instanceof Date ? date.toISOString() : date;
+};
+
+const invalidMessage = (message: string): SignInError => {
+  return new SignInError({ code: SignInErrorCodeEnum.INVALID_MESSAGE, message });
+};
+
+const isDate = (value: string): boolean => !Number.isNaN(Date.parse(value));
+
+/**
+ * It generates a random alphanumeric nonce, to be issued by the server and embedded in the sign in message.
+ * @returns The nonce.
+ */
+export const generateNonce = (): string => {
+  const bytes = globalThis.crypto.getRandomValues(new Uint8Array(NONCE_LENGTH));
+
+  return Array.from(bytes, (byte: number) => NONCE_ALPHABET[byte % NONCE_ALPHABET.length]).join('');
+};
+
+/**
+ * It parses a Sign-In With Casper message and checks its fields.
+ * @param {string} message - The message, as signed by the wallet.
+ * @returns The fields of the message.
+ */
+export const parseSignInMessage = (message: string): SignInMessage => {
+  const lines = message.split('\n');
+  let cursor = 0;
+
+  const readLine = (): string | undefined => lines[cursor++];
+  const readField = (label: string, isOptional: boolean = false): string | undefined => {
+    const line = lines[cursor];
+    if (line?.startsWith(`${label}: `)) {
+      cursor++;
+
+      return line.slice(label.length + 2);
+    }
+    if (!isOptional) {
+      throw invalidMessage(`Missing "${label}" in sign in message`);
+    }
+
+    return undefined;
+  };
+
+  const header = readLine();
+  if (!header?.endsWith(HEADER_SUFFIX) || header.length === HEADER_SUFFIX.length) {
+    throw invalidMessage('Invalid sign in message header');
+  }
+  const domain = header.slice(0, -HEADER_SUFFIX.length);
+
+  const publicKey = readLine() ?? '';
+  if (!PUBLIC_KEY_REGEX.test(publicKey)) {
+    throw invalidMessage('Invalid public key in sign in message');
+  }
+  if (readLine() !== '') {
+    throw invalidMessage('Invalid sign in message');
+  }
+
+  let statement: string | undefined;
+  if (!lines[cursor]?.startsWith('URI: ')) {
+    statement = readLine();
+    if (readLine() !== '') {
+      throw invalidMessage('Invalid statement in sign in message');
+    }
+  }
+
+  const uri = readField('URI') as string;
+  const version = readField('Version') as string;
+  if (version !== SIGN_IN_VERSION) {
+    throw invalidMessage(`Unsupported sign in message version "${version}"`);
+  }
+  const chainName = readField('Chain Name') as string;
+  const nonce = readField('Nonce') as string;
+  if (!NONCE_REGEX.test(nonce)) {
+    throw invalidMessage('Nonce must be at least 8 alphanumeric characters');
+  }
+  const issuedAt = readField('Issued At') as string;
+  const expirationTime = readField('Expiration Time', true);
+  const notBefore = readField('Not Before', true);
+  [issuedAt, expirationTime, notBefore].forEach((date?: string) => {
+    if (date !== undefined && !isDate(date)) {
+      throw invalidMessage(`Invalid date "${date}" in sign in message`);
+    }
+  });
+
+  let resources: string[] | undefined;
+  if (lines[cursor] === 'Resources:') {
+    cursor++;
+    resources = [];
+    while (lines[cursor]?.startsWith('- ')) {
+      resources.push((readLine() as string).slice(2));
+    }
+  }
+  if (cursor !== lines.length) {
+    throw invalidMessage('Unexpected content in sign in message');
+  }
+
+  return {
+    domain,
+    publicKey,
+    statement,
+    uri,
+    version,
+    chainName,
+    nonce,
+    issuedAt,
+    expirationTime,
+    notBefore,
+    resources,
+  };
+};
+
+/**
+ * It creates a Sign-In With Casper message, the Casper flavour of EIP-4361, to be signed with `signMessage`.
+ * @param {CreateSignInMessageParams}  - The fields of the message, `issuedAt` is now by default.
+ * @returns The message.
+ */
+export const createSignInMessage = ({
+  domain,
+  publicKey,
+  statement,
+  uri,
+  version = SIGN_IN_VERSION,
+  chainName,
+  nonce,
+  issuedAt = new Date(),
+  expirationTime,
+  notBefore,
+  resources,
+}: CreateSignInMessageParams): string => {
+  const lines = [`${domain}${HEADER_SUFFIX}`, publicKey, ''];
+  if (statement) {
+    lines.push(statement, '');
+  }
+  lines.push(
+    `URI: ${uri}`,
+    `Version: ${version}`,
+    `Chain Name: ${chainName}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${toISOString(issuedAt)}`,
+  );
+  if (expirationTime) {
+    lines.push(`Expiration Time: ${toISOString(expirationTime)}`);
+  }
+  if (notBefore) {
+    lines.push(`Not Before: ${toISOString(notBefore)}`);
+  }
+  if (resources?.length) {
+    lines.push('Resources:', ...resources.map((resource: string) => `- ${resource}`));
+  }
+  const message = lines.join('\n');
+
+  // Parsing it back rejects fields which would make an ambiguous message, e.g. a multiline statement.
+  parseSignInMessage(message);
+
+  return message;
+};
+
+/**
+ * It verifies a signed Sign-In With Casper message: the signature of the public key of the message, then the
+ * expected `domain`, `chainName` and `nonce` when given, and the validity window against `time`.
+ * @param {VerifySignInParams}  - The `message`, its hex `signature`, the expected `domain`, `chainName` and `nonce`.
+ * @returns The fields of the message.
+ */
+export const verifySignIn = ({
+  message,
+  signature,
+  domain,
+  chainName,
+  nonce,
+  time = new Date(),
+}: VerifySignInParams): SignInMessage => {
+  const fields = parseSignInMessage(message);
+
+  if (!verifyMessageSignature({ message, signature, publicKey: fields.publicKey })) {
+    throw new SignInError({ code: SignInErrorCodeEnum.INVALID_SIGNATURE, message: 'Invalid sign in signature' });
+  }
+  if (domain !== undefined && fields.domain !== domain) {
+    throw new SignInError({ code: SignInErrorCodeEnum.DOMAIN_MISMATCH, message: `Sign in message is not for ${domain}` });
+  }
+  if (chainName !== undefined && fields.chainName !== chainName) {
+    throw new SignInError({ code: SignInErrorCodeEnum.CHAIN_MISMATCH, message: `Sign in message is not for ${chainName}` });
+  }
+  if (nonce !== undefined && fields.nonce !== nonce) {
+    throw new SignInError({ code: SignInErrorCodeEnum.NONCE_MISMATCH, message: 'Sign in nonce does not match' });
+  }
+  if (fields.expirationTime && Date.parse(fields.expirationTime) <= time.getTime()) {
+    throw new SignInError({ code: SignInErrorCodeEnum.EXPIRED, message: 'Sign in message has expired' });
+  }
+  if (fields.notBefore && Date.parse(fields.notBefore) > time.getTime()) {
+    throw new SignInError({ code: SignInErrorCodeEnum.NOT_YET_VALID, message: 'Sign in message is not valid yet' });
+  }
+
+  return fields;
+};
@@ -0,0 +1,50 @@
+import { LedgerErrorCodeEnum } from '../enums/ledger';
+import { LedgerError, UserRejectedRequestError, WalletLockedError } from '../errors';
+
+/**
+ * It maps the error a connector threw while signing to the same typed error for every wallet. The
+ * connectors already throw `UserRejectedRequestError`, `WalletLockedError` and `SignerMismatchError`,
+ * so it only maps the Ledger rejections to `rejectedError` and a locked device to `WalletLockedError`.
+ * @param {unknown} error - The error of the connector.
+ * @param {UserRejectedRequestError} rejectedError - The error of a rejection.
+ * @returns The typed error.
+ */
+export const toSigningError = (
+  error: unknown,
+  rejectedError: UserRejectedRequestError = new UserRejectedRequestError(),
+): unknown => {
+  if (!(error instanceof LedgerError)) {
+    return error;
+  }
+
+  switch (error.code) {
+    case LedgerErrorCodeEnum.USER_REJECTED:
+      return rejectedError;
+    case LedgerErrorCodeEnum.LOCKED:
+      return new WalletLockedError();
+    default:
+      return error;
+  }
+};
+
+/* The Casper Signer and CasperDash reject with plain errors, these are the messages of a cancellation and of a locked wallet */
+const CANCELLED_ERROR_MESSAGE = 'User Cancelled Signing';
+const LOCKED_ERROR_MESSAGE = 'Please unlock the Signer to read key';
+
+/**
+ * It maps an error of a wallet with the Casper Signer API to the typed error of a cancellation or of a
+ * locked wallet, and keeps the others
+ * @param {unknown} error - The error of the wallet.
+ * @param {UserRejectedRequestError} rejectedError - The error of a cancellation.
+ * @returns The typed error.
+ */
+export const toSignerApiError = (error: unknown, rejectedError: UserRejectedRequestError): unknown => {
+  switch ((error as Partial<Error> | undefined)?.message) {
+    case CANCELLED_ERROR_MESSAGE:
+      return rejectedError;
+    case LOCKED_ERROR_MESSAGE:
+      return new WalletLockedError();
+    default:
+      return error;
+  }
+};
@@ -0,0 +1,2 @@
+export * from './rpcError';
+export * from './rpcStandIn';
@@ -0,0 +1,14 @@
+/* It's the error of a JSON-RPC response, thrown by the handlers of the RPC stand-in */
+export class RpcError extends Error {
+  public name: string = 'RpcError';
+  public code?: number;
+  public data?: unknown;
+
+  constructor({ message, code, data }: { message: string; code?: number; data?: unknown }) {
+    super(message);
+
+    this.message = message;
+    this.code = code;
+    this.data = data;
+  }
+}
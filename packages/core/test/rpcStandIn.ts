@@ -0,0 +1,60 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+import { RpcError } from './rpcError';
+
+export type RpcStandInHandler = (params: Record<string, unknown>) => unknown;
+
+export type RpcStandIn = {
+  rpcUrl: string;
+  calls: { method: string; params: Record<string, unknown> }[];
+  close: () => Promise<void>;
+};
+
+/**
+ * It starts a local JSON-RPC server standing in for a Casper node, answering each method with its handler.
+ * A handler throwing an `RpcError` answers with a JSON-RPC error.
+ * @param {Record<string, RpcStandInHandler>} handlers - The handlers by method.
+ * @returns The URL of the server, the received calls and a function closing the server.
+ */
+export const createRpcStandIn = async (handlers: Record<string, RpcStandInHandler>): Promise<RpcStandIn> => {
+  const calls: RpcStandIn['calls'] = [];
+  const server = createServer((request: IncomingMessage, response: ServerResponse) => {
+    let body = '';
+    request.on('data', (chunk: Buffer) => {
+      body += chunk.toString();
+    });
+    request.on('end', () => {
+      const { id, method, params = {} } = JSON.parse(body);
+      calls.push({ method, params });
+
+      let payload: Record<string, unknown>;
+      try {
+        const handler = handlers[method];
+        if (!handler) {
+          throw new RpcError({ code: -32601, message: `Method ${method} not found` });
+        }
+        payload = { result: handler(params) };
+      } catch (error) {
+        const { code, message } = error as RpcError;
+        payload = { error: { code, message } };
+      }
+
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ jsonrpc: '2.0', id, ...payload }));
+    });
+  });
+
+  await new Promise((resolve: (value: unknown) => void) => {
+    server.listen(0, '127.0.0.1', () => resolve(undefined));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    rpcUrl: `http://127.0.0.1:${port}/rpc`,
+    calls,
+    close: async () => new Promise((resolve: (value: void) => void) => {
+      server.close(() => resolve());
+    }),
+  };
+};
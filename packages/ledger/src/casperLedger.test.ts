@@ -0,0 +1,214 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import TransportWebUSB from '@ledgerhq/hw-transport-webusb';
+import { createStorage, SignerMismatchError } from '@casperdash/usewallet-core';
+
+import { FakeTransport, getFakePublicKey } from '../test';
+
+import { CasperLedgerConnector, CasperLedgerConnectorOptions } from './casperLedger';
+
+vi.mock('@ledgerhq/hw-transport-webusb', () => ({
+  default: { create: vi.fn(), isSupported: vi.fn().mockResolvedValue(false), list: vi.fn() },
+}));
+
+const createMemoryStorage = () => {
+  const items = new Map<string, string>();
+
+  return createStorage({
+    storage: {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => {
+        items.set(key, value);
+      },
+      removeItem: (key: string) => {
+        items.delete(key);
+      },
+    },
+  });
+};
+
+describe('CasperLedgerConnector', () => {
+  const createConnector = (options: CasperLedgerConnectorOptions = {}) => {
+    const transport = new FakeTransport();
+    const transportFactory = vi.fn().mockResolvedValue(transport);
+    const connector = new CasperLedgerConnector({
+      options: { transportFactory, storage: createMemoryStorage(), ...options },
+    });
+
+    return { connector, transport, transportFactory };
+  };
+
+  describe('transportFactory', () => {
+    it('should open the device with the transport factory instead of WebUSB', async () => {
+      const { connector, transport, transportFactory } = createConnector();
+
+      await expect(connector.getPublicKey('3')).resolves.toEqual(getFakePublicKey(3));
+
+      expect(transportFactory).toHaveBeenCalledOnce();
+      expect(TransportWebUSB.create).not.toHaveBeenCalled();
+      expect(connector.transport).toBe(transport);
+      expect(transport.apdus).toHaveLength(1);
+    });
+
+    it('should open the device once for concurrent connects', async () => {
+      const { connector, transport, transportFactory } = createConnector();
+
+      await Promise.all([connector.connect(), connector.connect()]);
+
+      expect(transportFactory).toHaveBeenCalledOnce();
+      expect(connector.transport).toBe(transport);
+    });
+  });
+
+  describe('session', () => {
+    const session = { index: '1', path: 'm/44\'/506\'/0\'/0/1', publicKey: getFakePublicKey(1) };
+
+    it('should restore the persisted account without opening the device', async () => {
+      const storage = createMemoryStorage();
+      storage.setItem('ledger.session', session);
+      const { connector, transportFactory } = createConnector({ storage });
+
+      expect(connector.getData()).toEqual({ ledgerAccountIndex: '1', ledgerAccountPath: session.path });
+      await expect(connector.getActivePublicKey()).resolves.toEqual(session.publicKey);
+      expect(transportFactory).not.toHaveBeenCalled();
+    });
+
+    it('should reconnect silently when a device is already authorized', async () => {
+      const storage = createMemoryStorage();
+      storage.setItem('ledger.session', session);
+      const listAuthorizedDevices = vi.fn().mockResolvedValue([{}]);
+      const { connector, transportFactory } = createConnector({ storage, listAuthorizedDevices });
+
+      await expect(connector.isConnected()).resolves.toBe(true);
+      expect(transportFactory).not.toHaveBeenCalled();
+
+      listAuthorizedDevices.mockResolvedValueOnce([]);
+      await expect(connector.isConnected()).resolves.toBe(false);
+    });
+
+    it('should not reconnect without a persisted account', async () => {
+      const listAuthorizedDevices = vi.fn().mockResolvedValue([{}]);
+      const { connector } = createConnector({ listAuthorizedDevices });
+
+      await expect(connector.isConnected()).resolves.toBe(false);
+      expect(listAuthorizedDevices).not.toHaveBeenCalled();
+    });
+
+    it('should emit a connect event with the persisted account once the transport is open', async () => {
+      const storage = createMemoryStorage();
+      storage.setItem('ledger.session', session);
+      const { connector } = createConnector({ storage });
+      const onConnect = vi.fn();
+      connector.on('connect', onConnect);
+
+      await connector.connect();
+
+      expect(onConnect).toHaveBeenCalledWith(expect.objectContaining({ activeKey: session.publicKey, isConnected: true }));
+    });
+
+    it('should persist the account and emit a change event when the index switches to another key', async () => {
+      const { connector } = createConnector();
+      const onChange = vi.fn();
+      connector.on('change', onChange);
+
+      connector.setAccountIndex('1', undefined, getFakePublicKey(1));
+      connector.setAccountIndex('1', undefined, getFakePublicKey(1));
+      connector.setAccountIndex('2', undefined, getFakePublicKey(2));
+
+      expect(onChange).toHaveBeenCalledTimes(2);
+      expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({
+        activeKey: getFakePublicKey(2),
+        ledgerAccountIndex: '2',
+      }));
+      expect(connector.getSession()).toEqual({ index: '2', path: 'm/44\'/506\'/0\'/0/2', publicKey: getFakePublicKey(2) });
+    });
+
+    it('should persist an account selected by its path without an index', async () => {
+      const { connector } = createConnector();
+      const path = 'm/44\'/506\'/7\'/0/0';
+
+      connector.setAccountIndex(undefined, path, getFakePublicKey(7));
+
+      expect(connector.getData()).toEqual({ ledgerAccountIndex: undefined, ledgerAccountPath: path });
+      expect(connector.getSession()).toEqual({ path, publicKey: getFakePublicKey(7) });
+    });
+
+    it('should emit a disconnect event and keep the persisted account when the device is unplugged', async () => {
+      const { connector, transport } = createConnector();
+      const onDisconnect = vi.fn();
+      connector.on('disconnect', onDisconnect);
+      await connector.getActivePublicKey();
+
+      transport.unplug();
+
+      expect(onDisconnect).toHaveBeenCalledOnce();
+      expect(connector.transport).toBeUndefined();
+      expect(connector.getSession()?.publicKey).toEqual(getFakePublicKey(0));
+    });
+
+    it('should close the transport and forget the persisted account on disconnect', async () => {
+      const { connector, transport } = createConnector();
+      const onDisconnect = vi.fn();
+      connector.on('disconnect', onDisconnect);
+      await connector.getActivePublicKey();
+
+      await connector.disconnect();
+
+      expect(transport.isClosed).toBe(true);
+      expect(connector.transport).toBeUndefined();
+      expect(connector.getSession()).toBeUndefined();
+      expect(onDisconnect).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe('signing', () => {
+    it('should check the signing public key against the account at the index option', async () => {
+      const { connector } = createConnector();
+
+      await expect(connector.signMessage('hello', getFakePublicKey(0), { index: '3' })).rejects.toThrowError(SignerMismatchError);
+      // The fake device does not sign, so the matching key fails later on the device instead.
+      await expect(connector.signMessage('hello', getFakePublicKey(3), { index: '3' })).rejects.not.toThrowError(SignerMismatchError);
+    });
+
+    it('should check the signing public key against the selected account over the index option', async () => {
+      const { connector } = createConnector();
+      connector.setAccountIndex('2', undefined, getFakePublicKey(2));
+
+      await expect(connector.signMessage('hello', getFakePublicKey(3), { index: '3' })).rejects.toThrowError(SignerMismatchError);
+    });
+  });
+
+  describe('transportIdleTimeout', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should close the transport once no command used it for the idle timeout', async () => {
+      vi.useFakeTimers();
+      const { connector, transport } = createConnector({ transportIdleTimeout: 1000 });
+
+      await connector.getPublicKey('0');
+      vi.advanceTimersByTime(999);
+      expect(transport.isClosed).toBe(false);
+
+      vi.advanceTimersByTime(1);
+      await vi.runAllTimersAsync();
+
+      expect(transport.isClosed).toBe(true);
+      expect(connector.transport).toBeUndefined();
+    });
+
+    it('should keep the transport open while commands use it', async () => {
+      vi.useFakeTimers();
+      const { connector, transport, transportFactory } = createConnector({ transportIdleTimeout: 1000 });
+
+      await connector.getPublicKey('0');
+      vi.advanceTimersByTime(500);
+      await connector.getPublicKey('1');
+      vi.advanceTimersByTime(500);
+
+      expect(transport.isClosed).toBe(false);
+      expect(transportFactory).toHaveBeenCalledOnce();
+    });
+  });
+});
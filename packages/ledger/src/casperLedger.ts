@@ -1,23 +1,52 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 import { DeployUtil, CLPublicKey, formatMessageWithHeaders, encodeBase16 } from 'casper-js-sdk';
-import TransportWebUSB from '@ledgerhq/hw-transport-webusb';
+import Transport from '@ledgerhq/hw-transport';
 import * as LedgerCasper from '@zondax/ledger-casper';
 import { JsonTypes } from 'typedjson';
 import {
   AlgoEnum,
+  ClientStorage,
   Connector,
+  ConnectorCapabilities,
+  ConnectorData,
   ConnectorNotFoundError,
+  createStorage,
   Deploy, DeployTypes,
   getDeployType,
-  CONNECT_ERROR_MESSAGE,
-  getLedgerError,
-  getLedgerPath,
+  LedgerDataInvalidError,
+  LedgerDeviceStatus,
+  LedgerError,
+  LedgerNotConnectedError,
+  LedgerPathTemplateEnum,
+  LedgerStatusCodeEnum,
+  LedgerWrongAppError,
+  noopStorage,
+  resolveLedgerPath,
+  SignerMismatchError,
+  toLedgerError,
 } from '@casperdash/usewallet-core';
 
+import { LedgerCommandQueue } from './commandQueue';
+import {
+  DeviceLister, listWebUsbDevices, TransportFactory, webUsbTransportFactory,
+} from './transports';
 
-type CasperLedgerConnectorOptions = {
+export type CasperLedgerConnectorOptions = {
   enableDebugLogs?: boolean;
   getEventProvider?: () => EventProvider;
+  transportFactory?: TransportFactory;
+  transportIdleTimeout?: number;
+  requiredAppVersion?: string;
+  pathTemplate?: string;
+  storage?: ClientStorage;
+  listAuthorizedDevices?: DeviceLister;
+};
+
+export type CasperLedgerSession = {
+  /* Undefined when the account was selected by its path */
+  index?: string;
+  path: string;
+  publicKey: string;
 };
 
 const { default: CasperApp } = LedgerCasper;
@@ -27,6 +56,30 @@ type EventProvider = Window;
 
 type LedgerOption = { index?: string };
 
+const CASPER_APP_NAME = 'Casper';
+const REQUIRED_APP_VERSION = '2.6.0';
+const SESSION_STORAGE_KEY = 'ledger.session';
+
+/**
+ * It compares two `major.minor.patch` versions
+ * @param {string} version - The version of the app.
+ * @param {string} requiredVersion - The minimum version.
+ * @returns true if the version is the required one or newer.
+ */
+const isVersionSupported = (version: string, requiredVersion: string): boolean => {
+  const parts = version.split('.').map(Number);
+  const requiredParts = requiredVersion.split('.').map(Number);
+
+  for (let index = 0; index < requiredParts.length; index++) {
+    const difference = (parts[index] ?? 0) - (requiredParts[index] ?? 0);
+    if (difference !== 0) {
+      return difference > 0;
+    }
+  }
+
+  return true;
+};
+
 export class CasperLedgerConnector extends Connector<
 Provider,
 Window,
@@ -34,10 +87,25 @@ CasperLedgerConnectorOptions
 >  {
   public isReady!: boolean;
   public readonly id: string = 'ledger';
-  public transport!: TransportWebUSB;
+  public readonly capabilities: ConnectorCapabilities = {
+    signDeploy: true,
+    signMessage: true,
+    wasmDeploys: true,
+    activeKeyEvents: true,
+    lockEvents: false,
+    multipleAccounts: true,
+    getVersion: true,
+    transactionV1: false,
+  };
+
+  public transport?: Transport;
   public casperApp?: Provider;
   public accountIndex?: string;
+  public accountPath?: string;
   public eventProvider?: EventProvider;
+  private commandQueue: LedgerCommandQueue;
+  private idleTimeoutId?: ReturnType<typeof setTimeout>;
+  private connecting?: Promise<void>;
 
   constructor({
     options: defaultOptions,
@@ -47,13 +115,37 @@ CasperLedgerConnectorOptions
       getEventProvider: (): EventProvider => {
         return window;
       },
+      transportFactory: webUsbTransportFactory,
+      transportIdleTimeout: 10 * 1000,
+      requiredAppVersion: REQUIRED_APP_VERSION,
+      pathTemplate: LedgerPathTemplateEnum.ADDRESS_INDEX,
+      storage: createStorage({
+        storage: typeof window !== 'undefined' ? window.localStorage : noopStorage,
+      }),
+      listAuthorizedDevices: listWebUsbDevices,
       ...defaultOptions,
     };
 
     super({ options });
+
+    this.onConnected = this.onConnected.bind(this);
+    this.onDisconnected = this.onDisconnected.bind(this);
+    this.onActiveKeyChanged = this.onActiveKeyChanged.bind(this);
+    this.commandQueue = new LedgerCommandQueue({ onIdle: () => this.scheduleTransportClose() });
+
+    const session = this.getSession();
+    if (session) {
+      this.accountIndex = session.index;
+      this.accountPath = session.path;
+    }
   }
 
+  /**
+   * It returns the Casper app of the open transport, opening one when there is none
+   * @returns The Casper app.
+   */
   public async getProvider(): Promise<Provider> {
+    clearTimeout(this.idleTimeoutId);
     await this.connect();
 
     if (!this.casperApp) {
@@ -78,102 +170,234 @@ CasperLedgerConnectorOptions
     return this.eventProvider;
   }
 
-  public setAccountIndex(index: string): void {
+  /**
+   * It selects the account at `index`, derived with the `pathTemplate` option unless a full `path` is given.
+   * With the `publicKey` of the account, it persists the selection and emits a `change` event when the
+   * active key changed.
+   * @param {string} index - The index of the account, undefined for an account selected by its path.
+   * @param {string} path - The derivation path of the account.
+   * @param {string} publicKey - The public key of the account.
+   */
+  public setAccountIndex(index: string | undefined, path: string = this.resolvePath(index ?? '0'), publicKey?: string): void {
     this.accountIndex = index;
+    this.accountPath = path;
+    if (!publicKey) {
+      return;
+    }
+
+    const previousPublicKey = this.getSession()?.publicKey;
+    this.saveSession(publicKey);
+
+    if (previousPublicKey !== publicKey) {
+      this.onActiveKeyChanged({ detail: { activeKey: publicKey, ...this.getData() } });
+    }
   }
 
+  /**
+   * It returns the index of the selected account, `0` when none is selected and undefined when the
+   * account was selected by its path
+   * @returns The index of the account.
+   */
   public getAccountIndex(): string | undefined {
-    return this.accountIndex || '0';
+    return this.accountPath ? this.accountIndex : '0';
   }
 
-  public async getPublicKey(index: string): Promise<string> {
-    const casperApp = await this.getProvider();
-    if (!casperApp) {
-      throw new Error('Please connect to Casper Ledger');
-    }
-    let publicKey;
-    try {
+  public getAccountPath(): string {
+    return this.accountPath ?? this.resolvePath(this.accountIndex || '0');
+  }
 
-      const path = getLedgerPath(index);
+  /**
+   * It returns the selected account, so the client restores it along with the public key
+   * @returns The index and the derivation path of the account.
+   */
+  public getData(): ConnectorData {
+    return {
+      ledgerAccountIndex: this.getAccountIndex(),
+      ledgerAccountPath: this.getAccountPath(),
+    };
+  }
 
-      const value = await casperApp.getAddressAndPubKey(path);
+  /**
+   * It returns the account persisted by a previous connection
+   * @returns The session.
+   */
+  public getSession(): CasperLedgerSession | undefined {
+    return this.options.storage?.getItem<CasperLedgerSession>(SESSION_STORAGE_KEY) ?? undefined;
+  }
 
-      if (value.errorMessage && value.errorMessage !== 'No errors') {
-        throw new Error(value.errorMessage);
-      }
-      publicKey = value.publicKey;
-    } catch (error) {
-      await this.transport.close();
+  /**
+   * It returns the value when it's already a full derivation path, or the path of the account at this index
+   * @param {string} indexOrPath - The index of the account, or its derivation path.
+   * @param {string} pathTemplate - The derivation path scheme, the `pathTemplate` option by default.
+   * @returns The derivation path.
+   */
+  public resolvePath(indexOrPath: string, pathTemplate: string | undefined = this.options.pathTemplate): string {
+    return resolveLedgerPath(indexOrPath, pathTemplate);
+  }
 
-      throw Error(getLedgerError(error as Error));
-    }
+  public async getPublicKey(index: string): Promise<string> {
+    return this.commandQueue.run(async () => this.readPublicKey(index));
+  }
 
-    await this.transport.close();
+  /**
+   * It shows the address of the account on the device, and resolves only once the user approves it there
+   * @param {string} index - The index of the account, or its derivation path.
+   * @returns The public key of the account.
+   */
+  public async verifyAddress(index: string): Promise<string> {
+    return this.commandQueue.run(async () => this.readPublicKey(index, { showOnDevice: true }));
+  }
 
-    if (!publicKey) {
+  /**
+   * It returns whether the device is connected and unlocked, and whether the Casper app is open and
+   * recent enough, so the UI can guide the user step by step
+   * @returns The status of the device.
+   */
+  public async getDeviceStatus(): Promise<LedgerDeviceStatus> {
+    const { requiredAppVersion = REQUIRED_APP_VERSION } = this.options;
+    const status: LedgerDeviceStatus = {
+      isDeviceConnected: false,
+      isDeviceLocked: false,
+      isAppOpen: false,
+      requiredAppVersion,
+      isAppVersionSupported: false,
+    };
 
-      throw Error(CONNECT_ERROR_MESSAGE);
-    }
+    return this.commandQueue.run(async () => {
+      let casperApp: Provider;
+      try {
+        casperApp = await this.getProvider();
+      } catch (error) {
+        return status;
+      }
 
-    return `${AlgoEnum.SECP256K1}${publicKey.toString('hex')}`;
+      const appInfo = await casperApp.getAppInfo();
+      if (appInfo.returnCode === LedgerStatusCodeEnum.DEVICE_LOCKED) {
+        return { ...status, isDeviceConnected: true, isDeviceLocked: true };
+      }
+      if (appInfo.appName !== CASPER_APP_NAME) {
+        return { ...status, isDeviceConnected: true, appName: appInfo.appName };
+      }
+
+      const version = await casperApp.getVersion();
+      const appVersion = `${version.major}.${version.minor}.${version.patch}`;
+
+      return {
+        ...status,
+        isDeviceConnected: true,
+        isDeviceLocked: version.deviceLocked,
+        isAppOpen: true,
+        appName: appInfo.appName,
+        appVersion,
+        isAppVersionSupported: isVersionSupported(appVersion, requiredAppVersion),
+      };
+    });
   }
 
+  /**
+   * It returns whether a transport is open, or whether an account was persisted and the user already
+   * authorized a device to the site, without prompting for one
+   * @returns true if the connector can reconnect silently.
+   */
   public async isConnected(): Promise<boolean> {
-    return !! await this.getActivePublicKey();
+    if (this.transport) {
+      return true;
+    }
+    if (!this.getSession()) {
+      return false;
+    }
+
+    try {
+      const devices = await this.options.listAuthorizedDevices?.();
+
+      return !!devices?.length;
+    } catch (error) {
+      return false;
+    }
   }
 
+  /**
+   * It forgets the persisted account, aborts the commands waiting for the device, closes the transport
+   * and emits a `disconnect` event
+   */
   public async disconnect(): Promise<void> {
-    // Do nothing
-    return;
-  }
+    this.options.storage?.removeItem(SESSION_STORAGE_KEY);
+    this.accountIndex = undefined;
+    this.accountPath = undefined;
+    this.commandQueue.abort();
 
-  public async connect(): Promise<void> {
-    try {
-      const transport = <TransportWebUSB> await TransportWebUSB.create();
+    await this.closeTransport();
 
-      this.transport = transport;
-      // eslint-disable-next-line no-underscore-dangle, @typescript-eslint/no-explicit-any
-      if ((CasperApp as any).__esModule) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        this.casperApp = new (CasperApp as any).default(transport);
-      } else {
-        this.casperApp = new CasperApp(transport);
-      }
+    this.emit('disconnect');
+  }
 
-      this.transport.on('disconnect', this.onDisconnected);
+  /**
+   * It opens a transport with the `transportFactory`, unless one is already open or being opened. Once a
+   * new transport is open, it emits a `connect` event with the persisted account when it's the selected one.
+   */
+  public async connect(): Promise<void> {
+    if (this.transport && this.casperApp) {
+      return;
+    }
 
-    } catch (error) {
-      console.log('error', error);
-      throw Error(getLedgerError(error as Error));
+    if (!this.connecting) {
+      this.connecting = this.openTransport().finally(() => {
+        this.connecting = undefined;
+      });
     }
+
+    return this.connecting;
   }
 
+  /**
+   * It returns the public key of the selected account, from the persisted account when it's the same so
+   * that reconnecting does not need the device
+   * @returns The public key of the selected account.
+   */
   public async getActivePublicKey(): Promise<string> {
-    return this.getPublicKey(this.accountIndex || '0');
+    const path = this.getAccountPath();
+    const session = this.getSession();
+    if (session?.path === path) {
+      return session.publicKey;
+    }
+
+    const publicKey = await this.getPublicKey(path);
+    this.saveSession(publicKey);
+
+    return publicKey;
   }
 
   // eslint-disable-next-line @typescript-eslint/typedef, @typescript-eslint/no-unused-vars
-  public async signMessage(message: string, _signingPublicKeyHex = '', { index = '0' }: LedgerOption =  { index: '0' }): Promise<string> {
-    const casperApp = await this.getProvider();
-    if (!casperApp) {
-      throw new Error('Please connect to Casper Ledger');
+  public async signMessage(message: string, signingPublicKeyHex = '', { index = '0' }: LedgerOption =  { index: '0' }): Promise<string> {
+    const path = this.getSigningPath(index);
+    if (signingPublicKeyHex) {
+      await this.assertSigner(signingPublicKeyHex, path);
     }
 
-    const signatureResponse = await casperApp.signMessage(
-      getLedgerPath(this.accountIndex || index),
-      formatMessageWithHeaders(message) as any,
-    );
-
-    if (!signatureResponse) {
-      await this.transport.close();
+    return this.commandQueue.run(async () => {
+      const casperApp = await this.getProvider();
+      if (!casperApp) {
+        throw new LedgerNotConnectedError();
+      }
 
-      throw new Error('Error on sign message with ledger.');
-    }
-    const signature = Uint8Array.from(signatureResponse.signatureRSV);
+      const signatureResponse = await casperApp.signMessage(
+        path,
+        formatMessageWithHeaders(message) as any,
+      );
 
-    await this.transport.close();
+      if (!signatureResponse) {
+        throw new LedgerError({ message: 'Error on sign message with ledger.' });
+      }
+      if (signatureResponse.returnCode !== LedgerStatusCodeEnum.NO_ERRORS) {
+        throw toLedgerError({
+          message: signatureResponse.errorMessage,
+          name: '',
+        }, signatureResponse.returnCode);
+      }
+      const signature = Uint8Array.from(signatureResponse.signatureRSV);
 
-    return encodeBase16(signature.slice(0, 64));
+      return encodeBase16(signature.slice(0, 64));
+    });
   }
 
   public async sign(
@@ -181,73 +405,218 @@ CasperLedgerConnectorOptions
     signingPublicKeyHex: string,
     _targetPublicKeyHex: string,
     { index = '0' }: LedgerOption =  { index: '0' }): Promise<Deploy> {
+    const path = this.getSigningPath(index);
+    await this.assertSigner(signingPublicKeyHex, path);
+
+    return this.commandQueue.run(async () => {
+      const casperApp = await this.getProvider();
+      if (!casperApp) {
+        throw new LedgerNotConnectedError();
+      }
+      const deployCasper = DeployUtil.deployFromJson(deploy);
+      const deployJson = deployCasper.unwrap();
+      let responseDeploy;
+
+      if (deployCasper.err) {
+        throw new LedgerDataInvalidError();
+      }
+
+      const isWasm = getDeployType(deployCasper.unwrap()) === DeployTypes.WASM;
+
+      if (isWasm) {
+        responseDeploy = await casperApp.signWasmDeploy(
+          path,
+          DeployUtil.deployToBytes(deployJson) as any,
+        );
+      } else {
+        responseDeploy = await casperApp.sign(
+          path,
+          DeployUtil.deployToBytes(deployJson) as any,
+        );
+      }
+
+      if (!responseDeploy.signatureRS) {
+        console.error(responseDeploy.errorMessage);
+        throw toLedgerError({
+          message: responseDeploy.errorMessage,
+          name: '',
+        }, responseDeploy.returnCode, { isWasm });
+      }
+
+      const signedDeploy = DeployUtil.setSignature(
+        deployJson,
+        responseDeploy.signatureRS,
+        CLPublicKey.fromHex(signingPublicKeyHex),
+      );
+
+      const deployValided: { ok?: boolean; val: DeployUtil.Deploy } =
+      <{ ok?: boolean; val: DeployUtil.Deploy }><unknown> DeployUtil.validateDeploy(signedDeploy);
+      if (deployValided?.ok) {
+        return DeployUtil.deployToJson(deployValided.val);
+      } else {
+        throw new LedgerError({ message: 'Error on sign deploy with ledger.' });
+      }
+    });
+  }
+
+  /**
+   * It emits a `connect` event to the client listening on this connector
+   * @param event - CustomEventInit<ConnectorData>
+   */
+  public onConnected(event: CustomEventInit<ConnectorData>): void {
+    this.emit('connect', event.detail ?? {});
+  }
+
+  /**
+   * It forgets the transport of the unplugged device, aborts the commands waiting for it and emits a
+   * `disconnect` event to the client listening on this connector. The persisted account is kept, so the
+   * device reconnects silently once plugged back.
+   */
+  public onDisconnected(): void {
+    clearTimeout(this.idleTimeoutId);
+    this.transport = undefined;
+    this.casperApp = undefined;
+    this.commandQueue.abort();
+
+    this.emit('disconnect');
+  }
+
+  /**
+   * It emits a `change` event to the client listening on this connector
+   * @param event - CustomEventInit<ConnectorData>
+   */
+  public onActiveKeyChanged(event: CustomEventInit<ConnectorData>): void {
+    this.emit('change', event.detail ?? {});
+  }
+
+  /**
+   * It reads the public key of the account from the device, showing it on screen for the user to
+   * approve when `showOnDevice` is set
+   * @param {string} index - The index of the account, or its derivation path.
+   * @returns The public key of the account.
+   */
+  private async readPublicKey(index: string, { showOnDevice = false }: { showOnDevice?: boolean } = {}): Promise<string> {
     const casperApp = await this.getProvider();
     if (!casperApp) {
-      throw new Error('Please connect to Casper Ledger');
+      throw new LedgerNotConnectedError();
     }
-    const deployCasper = DeployUtil.deployFromJson(deploy);
-    const deployJson = deployCasper.unwrap();
-    let responseDeploy;
+    let publicKey;
+    try {
+
+      const path = this.resolvePath(index);
 
-    if (deployCasper.err) {
-      throw new Error('Something went wrong with deployResult');
+      const value = showOnDevice
+        ? await casperApp.showAddressAndPubKey(path)
+        : await casperApp.getAddressAndPubKey(path);
+
+      if (value.returnCode !== LedgerStatusCodeEnum.NO_ERRORS) {
+        throw toLedgerError({
+          message: value.errorMessage,
+          name: '',
+        }, value.returnCode);
+      }
+      publicKey = value.publicKey;
+    } catch (error) {
+      if ((error as Error)?.name === 'TransportRaceCondition') {
+        throw error;
+      }
+
+      throw toLedgerError(error as Error);
     }
 
-    const isWasm = getDeployType(deployCasper.unwrap()) === DeployTypes.WASM;
+    if (!publicKey) {
 
-    if (isWasm) {
-      responseDeploy = await casperApp.signWasmDeploy(
-        getLedgerPath(this.accountIndex || index),
-        DeployUtil.deployToBytes(deployJson) as any,
-      );
-    } else {
-      responseDeploy = await casperApp.sign(
-        getLedgerPath(this.accountIndex || index),
-        DeployUtil.deployToBytes(deployJson) as any,
-      );
+      throw new LedgerWrongAppError();
     }
 
-    if (!responseDeploy.signatureRS) {
-      console.error(responseDeploy.errorMessage);
-      await this.transport.close();
-      throw Error(getLedgerError({
-        message: responseDeploy.errorMessage,
-        name: '',
-      }, responseDeploy.returnCode));
+    return `${AlgoEnum.SECP256K1}${publicKey.toString('hex')}`;
+  }
+
+  /**
+   * It checks that the selected account of the device holds the signing key, since the device signs
+   * with the selected account whatever key is asked
+   * @param {string} signingPublicKeyHex - The public key of the signer.
+   */
+  private async openTransport(): Promise<void> {
+    try {
+      const { transportFactory = webUsbTransportFactory } = this.options;
+      const transport = await transportFactory();
+
+      this.transport = transport;
+      // eslint-disable-next-line no-underscore-dangle, @typescript-eslint/no-explicit-any
+      if ((CasperApp as any).__esModule) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        this.casperApp = new (CasperApp as any).default(transport);
+      } else {
+        this.casperApp = new CasperApp(transport);
+      }
+
+      this.transport.on('disconnect', this.onDisconnected);
+
+    } catch (error) {
+      console.log('error', error);
+      throw toLedgerError(error as Error);
     }
 
-    const signedDeploy = DeployUtil.setSignature(
-      deployJson,
-      responseDeploy.signatureRS,
-      CLPublicKey.fromHex(signingPublicKeyHex),
-    );
+    const session = this.getSession();
+    if (session?.path === this.getAccountPath()) {
+      this.onConnected({ detail: { activeKey: session.publicKey, isConnected: true, ...this.getData() } });
+    }
+  }
 
-    const deployValided: { ok?: boolean; val: DeployUtil.Deploy } =
-    <{ ok?: boolean; val: DeployUtil.Deploy }><unknown> DeployUtil.validateDeploy(signedDeploy);
-    if (deployValided?.ok) {
-      await this.transport.close();
+  /**
+   * It returns the path the device signs with, the selected account or else the account at the `index` option
+   * @param {string} index - The index of the account, or its derivation path.
+   * @returns The derivation path.
+   */
+  private getSigningPath(index: string): string {
+    return this.accountPath ?? this.resolvePath(index);
+  }
 
-      return DeployUtil.deployToJson(deployValided.val);
-    } else {
-      await this.transport.close();
-      throw new Error('Error on sign deploy with ledger.');
+  /**
+   * It checks that the signing public key is the key of the path the device signs with
+   * @param {string} signingPublicKeyHex - The public key the deploy or the message is signed for.
+   * @param {string} path - The derivation path of the signing account.
+   */
+  private async assertSigner(signingPublicKeyHex: string, path: string): Promise<void> {
+    const session = this.getSession();
+    const publicKey = session?.path === path ? session.publicKey : await this.getPublicKey(path);
+    if (publicKey.toLowerCase() !== signingPublicKeyHex.toLowerCase()) {
+      throw new SignerMismatchError();
     }
   }
 
-  public onConnected(_event: CustomEventInit): void {
-    throw new Error('Method not implemented.');
+  /**
+   * It persists the selected account with its public key
+   * @param {string} publicKey - The public key of the account.
+   */
+  private saveSession(publicKey: string): void {
+    this.options.storage?.setItem<CasperLedgerSession>(SESSION_STORAGE_KEY, {
+      index: this.getAccountIndex(),
+      path: this.getAccountPath(),
+      publicKey,
+    });
   }
 
   /**
-   * It emits a custom event called 'casper:disconnect'
+   * It closes the transport once no command used it for `transportIdleTimeout`
    */
-  public onDisconnected(): void {
-    const customEvent = new CustomEvent('casper:disconnect');
-    window.dispatchEvent(customEvent);
-    // this.emit('disconnect');
+  private scheduleTransportClose(): void {
+    clearTimeout(this.idleTimeoutId);
+    this.idleTimeoutId = setTimeout(() => {
+      if (this.commandQueue.size === 0) {
+        void this.closeTransport();
+      }
+    }, this.options.transportIdleTimeout);
   }
 
-  public onActiveKeyChanged(_event: CustomEventInit): void {
-    throw new Error('Method not implemented.');
+  private async closeTransport(): Promise<void> {
+    clearTimeout(this.idleTimeoutId);
+    const { transport } = this;
+    this.transport = undefined;
+    this.casperApp = undefined;
+
+    transport?.off('disconnect', this.onDisconnected);
+    await transport?.close();
   }
 }
@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest';
+import { LedgerBusyError } from '@casperdash/usewallet-core';
+
+import { LedgerCommandQueue } from './commandQueue';
+
+const createDeferred = <T>() => {
+  let resolve: (value: T) => void = () => undefined;
+  const promise = new Promise<T>((resolvePromise: (value: T) => void) => {
+    resolve = resolvePromise;
+  });
+
+  return { promise, resolve };
+};
+
+describe('LedgerCommandQueue', () => {
+  it('should run the commands one at a time, in order', async () => {
+    const queue = new LedgerCommandQueue();
+    const first = createDeferred<string>();
+    const events: string[] = [];
+
+    const firstResult = queue.run(async () => {
+      events.push('first:start');
+      const value = await first.promise;
+      events.push('first:end');
+
+      return value;
+    });
+    const secondResult = queue.run(async () => {
+      events.push('second:start');
+
+      return 'second';
+    });
+
+    await Promise.resolve();
+    expect(queue.size).toEqual(2);
+    expect(events).toEqual(['first:start']);
+
+    first.resolve('first');
+
+    await expect(firstResult).resolves.toEqual('first');
+    await expect(secondResult).resolves.toEqual('second');
+    expect(events).toEqual(['first:start', 'first:end', 'second:start']);
+  });
+
+  it('should run the next command after a command failed', async () => {
+    const queue = new LedgerCommandQueue();
+
+    await expect(queue.run(async () => {
+      throw new Error('failed');
+    })).rejects.toThrow('failed');
+    await expect(queue.run(async () => 'next')).resolves.toEqual('next');
+  });
+
+  it('should reject the waiting commands with LedgerBusyError on abort and let the running one finish', async () => {
+    const queue = new LedgerCommandQueue();
+    const running = createDeferred<string>();
+    const waitingCommand = vi.fn();
+
+    const started = createDeferred<void>();
+    const runningResult = queue.run(async () => {
+      started.resolve();
+
+      return running.promise;
+    });
+    const waitingResult = queue.run(waitingCommand);
+
+    await started.promise;
+    queue.abort();
+    running.resolve('running');
+
+    await expect(runningResult).resolves.toEqual('running');
+    await expect(waitingResult).rejects.toThrow(LedgerBusyError);
+    expect(waitingCommand).not.toHaveBeenCalled();
+    await expect(queue.run(async () => 'after abort')).resolves.toEqual('after abort');
+  });
+
+  it('should map a TransportRaceCondition to LedgerBusyError', async () => {
+    const queue = new LedgerCommandQueue();
+    const raceCondition = Object.assign(new Error('An action was already pending'), { name: 'TransportRaceCondition' });
+
+    await expect(queue.run(async () => {
+      throw raceCondition;
+    })).rejects.toThrow(LedgerBusyError);
+  });
+
+  it('should call onIdle once the queue is empty', async () => {
+    const onIdle = vi.fn();
+    const queue = new LedgerCommandQueue({ onIdle });
+
+    await Promise.all([queue.run(async () => 'first'), queue.run(async () => 'second')]);
+
+    expect(onIdle).toHaveBeenCalledOnce();
+    expect(queue.size).toEqual(0);
+  });
+});
@@ -0,0 +1,61 @@
+import { LedgerBusyError } from '@casperdash/usewallet-core';
+
+/* It runs the commands sent to the Ledger device one after another, since the device handles a single APDU exchange at a time */
+export class LedgerCommandQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+  private pendingCount: number = 0;
+  private generation: number = 0;
+  private onIdle?: () => void;
+
+  constructor({ onIdle }: { onIdle?: () => void } = {}) {
+    this.onIdle = onIdle;
+  }
+
+  public get size(): number {
+    return this.pendingCount;
+  }
+
+  /**
+   * It runs the command once the previous ones are settled. A command aborted while waiting, or
+   * colliding with an exchange made outside of the queue, rejects with a `LedgerBusyError`.
+   * @param command - () => Promise<T>
+   * @returns The result of the command.
+   */
+  public async run<T>(command: () => Promise<T>): Promise<T> {
+    const { generation } = this;
+    this.pendingCount = this.pendingCount + 1;
+
+    const result = this.tail.then(async () => {
+      if (generation !== this.generation) {
+        throw new LedgerBusyError();
+      }
+
+      try {
+        return await command();
+      } catch (error) {
+        if ((error as Error)?.name === 'TransportRaceCondition') {
+          throw new LedgerBusyError();
+        }
+
+        throw error;
+      }
+    });
+    this.tail = result.catch(() => undefined);
+
+    try {
+      return await result;
+    } finally {
+      this.pendingCount = this.pendingCount - 1;
+      if (this.pendingCount === 0) {
+        this.onIdle?.();
+      }
+    }
+  }
+
+  /**
+   * It aborts the commands waiting in the queue, the running command is left to finish
+   */
+  public abort(): void {
+    this.generation = this.generation + 1;
+  }
+}
@@ -1 +1,2 @@
 export * from './casperLedger';
+export * from './transports';
@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest';
+import TransportWebHID from '@ledgerhq/hw-transport-webhid';
+import TransportNodeHid from '@ledgerhq/hw-transport-node-hid';
+import SpeculosTransport from '@ledgerhq/hw-transport-node-speculos';
+
+import { createSpeculosTransportFactory, nodeHidTransportFactory, webHidTransportFactory } from './transports';
+
+vi.mock('@ledgerhq/hw-transport-webhid', () => ({
+  default: { create: vi.fn().mockResolvedValue('webHidTransport') },
+}));
+
+vi.mock('@ledgerhq/hw-transport-node-hid', () => ({
+  default: { create: vi.fn().mockResolvedValue('nodeHidTransport') },
+}));
+
+vi.mock('@ledgerhq/hw-transport-node-speculos', () => ({
+  default: { open: vi.fn().mockResolvedValue('speculosTransport') },
+}));
+
+describe('transports', () => {
+  it('should open the device over WebHID', async () => {
+    await expect(webHidTransportFactory()).resolves.toEqual('webHidTransport');
+    expect(TransportWebHID.create).toHaveBeenCalledOnce();
+  });
+
+  it('should open the device over USB HID', async () => {
+    await expect(nodeHidTransportFactory()).resolves.toEqual('nodeHidTransport');
+    expect(TransportNodeHid.create).toHaveBeenCalledOnce();
+  });
+
+  it('should connect to the Speculos emulator on 127.0.0.1:9999 by default', async () => {
+    await expect(createSpeculosTransportFactory()()).resolves.toEqual('speculosTransport');
+    expect(SpeculosTransport.open).toHaveBeenCalledWith({ host: '127.0.0.1', apduPort: 9999 });
+  });
+
+  it('should forward the host and APDU port of the Speculos emulator', async () => {
+    await createSpeculosTransportFactory({ host: 'speculos', apduPort: 40000 })();
+
+    expect(SpeculosTransport.open).toHaveBeenCalledWith({ host: 'speculos', apduPort: 40000 });
+  });
+});
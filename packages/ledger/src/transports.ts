@@ -0,0 +1,78 @@
+import Transport from '@ledgerhq/hw-transport';
+import TransportWebHID from '@ledgerhq/hw-transport-webhid';
+import TransportWebUSB from '@ledgerhq/hw-transport-webusb';
+
+export type TransportFactory = () => Promise<Transport>;
+
+export type DeviceLister = () => Promise<unknown[]>;
+
+export type SpeculosTransportOptions = {
+  host?: string;
+  apduPort?: number;
+};
+
+/**
+ * It opens the Ledger device over WebUSB, in Chromium based browsers
+ * @returns The transport.
+ */
+export const webUsbTransportFactory: TransportFactory = async () => {
+  return TransportWebUSB.create();
+};
+
+/**
+ * It opens the Ledger device over WebHID, in browsers and Electron renderers without WebUSB
+ * @returns The transport.
+ */
+export const webHidTransportFactory: TransportFactory = async () => {
+  return TransportWebHID.create();
+};
+
+/**
+ * It lists the Ledger devices the user already authorized the site to use over WebUSB, without prompting
+ * @returns The authorized devices.
+ */
+export const listWebUsbDevices: DeviceLister = async () => {
+  if (!await TransportWebUSB.isSupported()) {
+    return [];
+  }
+
+  return TransportWebUSB.list();
+};
+
+/**
+ * It lists the Ledger devices the user already authorized the site to use over WebHID, without prompting
+ * @returns The authorized devices.
+ */
+export const listWebHidDevices: DeviceLister = async () => {
+  if (!await TransportWebHID.isSupported()) {
+    return [];
+  }
+
+  return TransportWebHID.list();
+};
+
+/**
+ * It opens the Ledger device over USB HID in Node.js and Electron main processes. It requires the
+ * optional `@ledgerhq/hw-transport-node-hid` package.
+ * @returns The transport.
+ */
+export const nodeHidTransportFactory: TransportFactory = async () => {
+  const { default: TransportNodeHid } = await import('@ledgerhq/hw-transport-node-hid');
+
+  return TransportNodeHid.create();
+};
+
+/**
+ * It creates a factory connecting to the APDU port of a Speculos emulator over TCP, to run the
+ * Ledger flow without a device, e.g. in CI. It requires the optional
+ * `@ledgerhq/hw-transport-node-speculos` package.
+ * @param {SpeculosTransportOptions}  - `host` and `apduPort` of the emulator, `127.0.0.1:9999` by default.
+ * @returns The transport factory.
+ */
+export const createSpeculosTransportFactory = (
+  { host = '127.0.0.1', apduPort = 9999 }: SpeculosTransportOptions = {},
+): TransportFactory => async () => {
+  const { default: SpeculosTransport } = await import('@ledgerhq/hw-transport-node-speculos');
+
+  return SpeculosTransport.open({ host, apduPort });
+};
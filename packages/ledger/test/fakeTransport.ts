@@ -0,0 +1,39 @@
+import Transport from '@ledgerhq/hw-transport';
+
+const INS_GET_ADDR_SECP256K1 = 0x01;
+const NO_ERRORS = Buffer.from([0x90, 0x00]);
+const INS_NOT_SUPPORTED = Buffer.from([0x6d, 0x00]);
+
+/**
+ * It returns the public key the fake device derives for the last index of a derivation path
+ * @param {number} index - The last index of the derivation path.
+ * @returns The hex public key, as returned by the connector.
+ */
+export const getFakePublicKey = (index: number): string => `02${Buffer.alloc(33, index + 1).toString('hex')}`;
+
+/* It's a Ledger transport answering the public key requests of the Casper app, without a device */
+export class FakeTransport extends Transport {
+  public readonly apdus: Buffer[] = [];
+  public isClosed: boolean = false;
+
+  public async exchange(apdu: Buffer): Promise<Buffer> {
+    this.apdus.push(apdu);
+    if (apdu[1] !== INS_GET_ADDR_SECP256K1) {
+      return INS_NOT_SUPPORTED;
+    }
+
+    // The data is the serialized path, five uint32 with the last index at the end.
+    const index = apdu.readUInt32LE(apdu.length - 4);
+
+    return Buffer.concat([Buffer.alloc(33, index + 1), Buffer.from('address'), NO_ERRORS]);
+  }
+
+  public async close(): Promise<void> {
+    this.isClosed = true;
+  }
+
+  /* It simulates the device being unplugged */
+  public unplug(): void {
+    this.emit('disconnect');
+  }
+}
@@ -20,7 +20,7 @@ export default defineConfig({
       fileName: 'index',
     },
     rollupOptions: {
-      external: ['react', '@tanstack/react-query', '@ledgerhq/hw-transport-node-hid'],
+      external: ['react', '@tanstack/react-query', '@ledgerhq/hw-transport-node-hid', '@ledgerhq/hw-transport-node-speculos'],
       output: {
         format: 'esm',
       },
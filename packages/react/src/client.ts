@@ -39,4 +39,6 @@ export {
   CasperSignerConnector,
   CasperWalletConnector,
   CasperDashWebConnector,
+  LocalKeyConnector,
+  DiscoveredWalletConnector,
 } from '@casperdash/usewallet-core';
@@ -1,2 +1,3 @@
 export * from './queryKeys';
 export * from './mutationKeys';
+export * from './signAndSendDeployStatus';
@@ -4,4 +4,8 @@ export enum MutationKeysEnum {
   SIGN = 'sign',
   SIGN_MESSAGE = 'sign_message',
   SET_LEDGER_ACCOUNT_INDEX = 'set_ledger_account_index',
+  VERIFY_LEDGER_ADDRESS = 'verify_ledger_address',
+  SIGN_IN = 'sign_in',
+  SEND_DEPLOY = 'send_deploy',
+  SIGN_AND_SEND_DEPLOY = 'sign_and_send_deploy',
 }
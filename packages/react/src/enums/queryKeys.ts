@@ -1,3 +1,6 @@
 export enum QueryKeysEnum {
   CONNECT = 'connect',
+  LEDGER_STATUS = 'ledger_status',
+  LEDGER_ACCOUNTS = 'ledger_accounts',
+  DEPLOY_RESULT = 'deploy_result',
 }
@@ -0,0 +1,8 @@
+export enum SignAndSendDeployStatusEnum {
+  IDLE = 'idle',
+  SIGNING = 'signing',
+  SUBMITTING = 'submitting',
+  PENDING = 'pending',
+  EXECUTED = 'executed',
+  FAILED = 'failed',
+}
@@ -5,3 +5,12 @@ export { useConnect } from './useConnect';
 export { useDisconnect } from './useDisconnect';
 export { useSign } from './useSign';
 export { useSignMessage } from './useSignMessage';
+export { useConnectorCapabilities } from './useConnectorCapabilities';
+export { useDiscoveredWallets } from './useDiscoveredWallets';
+export { useVerifyMessage } from './useVerifyMessage';
+export { useSignIn } from './useSignIn';
+export type { SignInResult } from './useSignIn';
+export { useSendDeploy } from './useSendDeploy';
+export { useWaitForDeploy } from './useWaitForDeploy';
+export { useSignAndSendDeploy } from './useSignAndSendDeploy';
+export type { SignAndSendDeployResult } from './useSignAndSendDeploy';
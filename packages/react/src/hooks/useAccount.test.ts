@@ -30,6 +30,7 @@ describe('useAccount', () => {
       publicKey,
       status,
       ledgerAccountIndex: null,
+      ledgerAccountPath: null,
       connector: undefined,
     });
   });
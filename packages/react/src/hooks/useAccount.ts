@@ -9,6 +9,8 @@ import {
 } from '@casperdash/usewallet-core';
 import { useEffect, useRef, useState } from 'react';
 
+import { useOptionalClient } from '../provider';
+
 export type OnConnectParams = { publicKey: string; connector?: Connector };
 
 export type UseAccounProps<TError> = {
@@ -22,25 +24,29 @@ type Result = {
   status: StatusEnum;
   publicKey: string | null;
   ledgerAccountIndex: string | null;
+  ledgerAccountPath: string | null;
   connector?: Connector;
 };
 
 export const useAccount = <TError = unknown>({ onConnect, onDisconnect, onError, onChange }: UseAccounProps<TError> = {}): Result => {
   const [publicKey, setPublicKey] = useState<string | null>(null);
   const [ledgerAccountIndex, setLedgerAccountIndex] = useState<string | null>(null);
+  const [ledgerAccountPath, setLedgerAccountPath] = useState<string | null>(null);
   const [connector, setConnector] = useState<Connector>();
   const [status, setStatus] = useState<StatusEnum>(StatusEnum.DISCONNECTED);
   const ref = useRef<Account>(null!);
+  const client = useOptionalClient();
 
   useEffect(() => {
     const initAccount = async (): Promise<void> => {
       try {
-        const account = getAccount();
+        const account = getAccount({ client });
 
         if (account && account.status === StatusEnum.CONNECTED) {
           setPublicKey(account.publicKey || null);
           setStatus(account.status);
           setLedgerAccountIndex(account.ledgerAccountIndex || null);
+          setLedgerAccountPath(account.ledgerAccountPath || null);
           setConnector(account.connector);
         }
       } catch (error: unknown) {
@@ -62,6 +68,7 @@ export const useAccount = <TError = unknown>({ onConnect, onDisconnect, onError,
       setPublicKey(account.publicKey || null);
       setStatus(account.status || StatusEnum.DISCONNECTED);
       setLedgerAccountIndex(account.ledgerAccountIndex || null);
+      setLedgerAccountPath(account.ledgerAccountPath || null);
       setConnector(account.connector);
 
       if (!deepEqual(account, ref.current)) {
@@ -78,17 +85,18 @@ export const useAccount = <TError = unknown>({ onConnect, onDisconnect, onError,
       }
 
       ref.current = account;
-    });
+    }, { client });
 
     return () => {
       unsubscribe();
     };
-  }, []);
+  }, [client]);
 
   return {
     status,
     publicKey,
     ledgerAccountIndex,
+    ledgerAccountPath,
     connector,
   };
 };
@@ -1,6 +1,7 @@
 import { describe, expect, it, vi } from 'vitest';
 import { act, renderHook, waitFor } from '@testing-library/react';
-import { CasperDashConnector, Connector } from '@casperdash/usewallet-core';
+import { CasperDashConnector, Connector, connect } from '@casperdash/usewallet-core';
+import { createClient } from '@casperdash/usewallet';
 
 import { wrapper } from '../../test';
 
@@ -95,4 +96,23 @@ describe('useConnect', () => {
     expect(onSuccess).toHaveBeenCalledOnce();
   });
 
+  it('should connect with the client of the closest CasperProvider', async () => {
+    const client = createClient({ connectors: [] });
+    const connector = new CasperDashConnector();
+    const { result } = renderHook(
+      () =>
+        useConnect({
+          connector,
+        }),
+      {
+        wrapper: ({ children }: { children: React.ReactNode }) => wrapper({ client, children }),
+      },
+    );
+
+    await act(async () => {
+      await result.current.connectAsync();
+    });
+
+    expect(connect).toHaveBeenCalledWith({ connector, client });
+  });
 });
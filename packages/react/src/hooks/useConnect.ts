@@ -3,19 +3,22 @@ import { useMutation, UseMutationOptions } from '@tanstack/react-query';
 import { connect as connectDapp, ConnectParams, ConnectResult } from '@casperdash/usewallet-core';
 import { MutationKeysEnum } from '@casperdash/usewallet';
 
+import { Client } from '../client';
+import { useOptionalClient } from '../provider';
+
 // define types required by useConnect hook
 export type UseConnectParams = Partial<ConnectParams>;
 export type UseConnectConfig = Partial<UseMutationOptions<ConnectResult, unknown, UseConnectParams>>;
 export type UseConnectProps = UseConnectParams & UseConnectConfig;
 
-// define mutation function required by react-query
-const mutationFn = async (args: UseConnectParams) => {
+// define mutation function required by react-query, bound to the client of the closest `CasperProvider`
+const mutationFn = (client?: Client) => async (args: UseConnectParams) => {
   const { connector } = args;
   if (!connector) {
     throw new Error('connector is required');
   }
 
-  return connectDapp({ connector });
+  return connectDapp({ connector, client });
 };
 
 // define useConnect custom hook using react-query's useMutation hook which will return data based on mutation function provided.
@@ -26,6 +29,7 @@ export const useConnect = ({
   onSettled,
   onSuccess,
 }: UseConnectProps) => {
+  const client = useOptionalClient();
   const {
     data,
     error,
@@ -38,7 +42,7 @@ export const useConnect = ({
     variables,
     mutate,
     mutateAsync,
-  } = useMutation([MutationKeysEnum.CONNECT], mutationFn, {
+  } = useMutation([MutationKeysEnum.CONNECT], mutationFn(client), {
     onError,
     onMutate,
     onSettled,
@@ -0,0 +1,29 @@
+import { renderHook } from '@testing-library/react';
+import { CasperDashWebConnector, CasperWalletConnector } from '@casperdash/usewallet-core';
+import { createClient } from '@casperdash/usewallet';
+import { describe, expect, it } from 'vitest';
+
+import { wrapper } from '../../test';
+
+import { useConnectorCapabilities } from './useConnectorCapabilities';
+
+describe('useConnectorCapabilities', () => {
+  const client = createClient({ connectors: [new CasperWalletConnector(), new CasperDashWebConnector()] });
+
+  it('should return the capabilities of the connector with the given id', () => {
+    const { result } = renderHook(() => useConnectorCapabilities({ id: 'casperDashWeb' }), {
+      wrapper: ({ children }: { children: React.ReactNode }) => wrapper({ client, children }),
+    });
+
+    expect(result.current?.activeKeyEvents).toBe(false);
+    expect(result.current?.signMessage).toBe(true);
+  });
+
+  it('should return undefined when there is no active connector', () => {
+    const { result } = renderHook(() => useConnectorCapabilities(), {
+      wrapper: ({ children }: { children: React.ReactNode }) => wrapper({ client, children }),
+    });
+
+    expect(result.current).toBeUndefined();
+  });
+});
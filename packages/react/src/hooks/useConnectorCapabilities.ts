@@ -0,0 +1,26 @@
+import { useMemo } from 'react';
+import { ConnectorCapabilities, getConnectorCapabilities } from '@casperdash/usewallet-core';
+
+import { useOptionalClient } from '../provider';
+
+import { useAccount } from './useAccount';
+
+export type UseConnectorCapabilitiesParams = {
+  id?: string;
+};
+
+/**
+ * It returns the capabilities of the connector with the given id, or of the active connector when no id is given,
+ * so the UI can hide the actions a wallet can not perform.
+ * @param {UseConnectorCapabilitiesParams}  - `id` - the id of the connector
+ * @returns The capabilities of the connector, or undefined if the connector is not found.
+ */
+export const useConnectorCapabilities = ({ id }: UseConnectorCapabilitiesParams = {}): ConnectorCapabilities | undefined => {
+  const client = useOptionalClient();
+  const { connector } = useAccount();
+
+  return useMemo(
+    () => getConnectorCapabilities({ id: id ?? connector?.id, client }),
+    [id, connector, client],
+  );
+};
@@ -4,12 +4,15 @@ import { useMutation, UseMutationOptions } from '@tanstack/react-query';
 import { disconnect as disconnectDapp } from '@casperdash/usewallet-core';
 import { MutationKeysEnum } from '@casperdash/usewallet';
 
+import { Client } from '../client';
+import { useOptionalClient } from '../provider';
+
 export type UseDisconnectConfig = Partial<UseMutationOptions>;
 
 export type UseDisconnectProps = UseDisconnectConfig;
 
-const mutationFn = async () => {
-  return disconnectDapp();
+const mutationFn = (client?: Client) => async () => {
+  return disconnectDapp({ client });
 };
 
 export const useDisconnect = ({
@@ -18,6 +21,7 @@ export const useDisconnect = ({
   onSettled,
   onSuccess,
 }: UseDisconnectProps = {}) => {
+  const client = useOptionalClient();
   const {
     error,
     isError,
@@ -28,7 +32,7 @@ export const useDisconnect = ({
     reset,
     mutate,
     mutateAsync,
-  } = useMutation([MutationKeysEnum.DISCONNECT], mutationFn, {
+  } = useMutation([MutationKeysEnum.DISCONNECT], mutationFn(client), {
     onError,
     onMutate,
     onSettled,
@@ -0,0 +1,48 @@
+import { renderHook, waitFor } from '@testing-library/react';
+import { DiscoveredLedgerAccount, discoverLedgerAccounts } from '@casperdash/usewallet-core';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { wrapper } from '../../test';
+
+import { useDiscoverLedgerAccounts } from './useDiscoverLedgerAccounts';
+
+vi.mock('@casperdash/usewallet-core/actions/account/discoverLedgerAccounts', () => ({
+  discoverLedgerAccounts: vi.fn(),
+}));
+
+describe('useDiscoverLedgerAccounts', () => {
+  const accounts: DiscoveredLedgerAccount[] = [{
+    index: 0,
+    path: 'm/44\'/506\'/0\'/0/0',
+    publicKey: 'publicKey',
+    accountHash: 'account-hash-00',
+    balance: '100',
+    exists: true,
+  }];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(discoverLedgerAccounts).mockResolvedValue(accounts);
+  });
+
+  it('should return the discovered accounts', async () => {
+    const { result } = renderHook(() => useDiscoverLedgerAccounts({ rpcUrl: 'http://localhost:7777/rpc', gapLimit: 2 }), { wrapper });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(result.current.data).toEqual(accounts);
+    expect(discoverLedgerAccounts).toHaveBeenCalledWith(expect.objectContaining({
+      rpcUrl: 'http://localhost:7777/rpc',
+      gapLimit: 2,
+      startIndex: 0,
+    }));
+  });
+
+  it('should discover on the node of the client config without rpcUrl', async () => {
+    const { result } = renderHook(() => useDiscoverLedgerAccounts(), { wrapper });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(discoverLedgerAccounts).toHaveBeenCalledWith(expect.objectContaining({ rpcUrl: undefined, gapLimit: 5 }));
+  });
+});
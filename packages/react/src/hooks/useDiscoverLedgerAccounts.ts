@@ -0,0 +1,36 @@
+import { useQuery, UseQueryOptions, UseQueryResult } from '@tanstack/react-query';
+import { discoverLedgerAccounts, DiscoveredLedgerAccount } from '@casperdash/usewallet-core';
+
+import { QueryKeysEnum } from '../enums';
+import { useOptionalClient } from '../provider';
+
+type Params = {
+  /* The RPC URL of the client config by default */
+  rpcUrl?: string;
+  gapLimit?: number;
+  startIndex?: number;
+  pathTemplate?: string;
+};
+
+type Options = Omit<UseQueryOptions<DiscoveredLedgerAccount[]>, 'queryKey' | 'queryFn'>;
+
+/**
+ * It discovers the accounts of the Ledger device with their balances, walking the derivation indexes
+ * until `gapLimit` accounts in a row do not exist on the node at `rpcUrl`, the one of the client
+ * config by default.
+ * @param {Params}  - `rpcUrl`, `gapLimit`, `startIndex` and `pathTemplate` of the discovery
+ * @param {Options} options - The options of the query.
+ * @returns The query of the accounts.
+ */
+export const useDiscoverLedgerAccounts = (
+  { rpcUrl, gapLimit = 5, startIndex = 0, pathTemplate }: Params = {},
+  options?: Options,
+): UseQueryResult<DiscoveredLedgerAccount[]> => {
+  const client = useOptionalClient();
+
+  return useQuery<DiscoveredLedgerAccount[]>(
+    [QueryKeysEnum.LEDGER_ACCOUNTS, rpcUrl, gapLimit, startIndex, pathTemplate],
+    async () => discoverLedgerAccounts({ rpcUrl, gapLimit, startIndex, pathTemplate, client }),
+    options,
+  );
+};
@@ -0,0 +1,32 @@
+import { act, renderHook } from '@testing-library/react';
+import { announceProvider, CasperWalletConnector } from '@casperdash/usewallet-core';
+import { createClient } from '@casperdash/usewallet';
+import { describe, expect, it } from 'vitest';
+
+import { wrapper } from '../../test';
+
+import { useDiscoveredWallets } from './useDiscoveredWallets';
+
+describe('useDiscoveredWallets', () => {
+  const detail = {
+    info: { uuid: 'uuid', name: 'Test Wallet', icon: 'data:image/svg+xml,', rdns: 'com.example.wallet' },
+    provider: {} as Parameters<typeof announceProvider>[0]['provider'],
+  };
+
+  it('should return the wallets announced after the first render', () => {
+    const client = createClient({ connectors: [new CasperWalletConnector()] });
+    const { result } = renderHook(() => useDiscoveredWallets(), {
+      wrapper: ({ children }: { children: React.ReactNode }) => wrapper({ client, children }),
+    });
+
+    expect(result.current).toEqual([]);
+
+    act(() => {
+      announceProvider(detail)();
+    });
+
+    expect(result.current).toHaveLength(1);
+    expect(result.current[0]?.info.name).toEqual('Test Wallet');
+    expect(result.current[0]).toBe(client.connectors?.[0]);
+  });
+});
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { DiscoveredWalletConnector, getDiscoveredWallets, watchDiscoveredWallets } from '@casperdash/usewallet-core';
+
+import { useOptionalClient } from '../provider';
+
+/**
+ * It returns the connectors of the wallets that announced themselves, updated as new wallets announce.
+ * Each connector carries the `info` of the wallet (name, icon, rdns) and can be passed to `connect`.
+ * @returns The connectors of the discovered wallets.
+ */
+export const useDiscoveredWallets = (): DiscoveredWalletConnector[] => {
+  const client = useOptionalClient();
+  const [wallets, setWallets] = useState<DiscoveredWalletConnector[]>(() => getDiscoveredWallets({ client }));
+
+  useEffect(() => {
+    setWallets(getDiscoveredWallets({ client }));
+
+    return watchDiscoveredWallets(setWallets, { client });
+  }, [client]);
+
+  return wallets;
+};
@@ -1,11 +1,14 @@
 import {
   InfiniteData, QueryFunctionContext, useInfiniteQuery, UseInfiniteQueryOptions, UseInfiniteQueryResult,
 } from '@tanstack/react-query';
-import { getLedgerPublicKey, getLedgerPath } from '@casperdash/usewallet-core';
+import { getLedgerPublicKey, getLedgerPath, LedgerPathTemplateEnum } from '@casperdash/usewallet-core';
+
+import { useOptionalClient } from '../provider';
 
 type Params = {
   startIndex?: number;
   total?: number;
+  pathTemplate?: string;
 };
 
 export type LedgerAccount = {
@@ -23,19 +26,21 @@ type Result = Omit<UseInfiniteQueryResult<LedgerAccount[]>, 'data'> & {
 };
 
 export const useFetchLedgerAccounts = (
-  { startIndex = 0, total = 10 }: Params,
+  { startIndex = 0, total = 10, pathTemplate = LedgerPathTemplateEnum.ADDRESS_INDEX }: Params,
   options?: Options,
 ): Result => {
+  const client = useOptionalClient();
   const { data, ...query } = useInfiniteQuery<LedgerAccount[]>(
-    ['casper-ledger-accounts'],
+    ['casper-ledger-accounts', pathTemplate],
     async (context: QueryFunctionContext) => {
       const accounts = [];
       const { pageParam = startIndex } = context;
       for (let i = pageParam; i < pageParam + total; i++) {
-        const publicKey = await getLedgerPublicKey({ index: i.toString() });
+        const path = getLedgerPath(i.toString(), pathTemplate);
+        const publicKey = await getLedgerPublicKey({ index: path, client });
 
         accounts.push({
-          path: getLedgerPath(i.toString()),
+          path,
           publicKey,
           index: i,
         });
@@ -0,0 +1,45 @@
+import { renderHook, waitFor } from '@testing-library/react';
+import { Connector, ConnectorNotLedgerError, LedgerDeviceStatus } from '@casperdash/usewallet-core';
+import { createClient } from '@casperdash/usewallet';
+import { describe, expect, it, vi } from 'vitest';
+
+import { wrapper } from '../../test';
+
+import { useLedgerStatus } from './useLedgerStatus';
+
+describe('useLedgerStatus', () => {
+  const status: LedgerDeviceStatus = {
+    isDeviceConnected: true,
+    isDeviceLocked: false,
+    isAppOpen: true,
+    appName: 'Casper',
+    appVersion: '2.6.0',
+    requiredAppVersion: '2.0.0',
+    isAppVersionSupported: true,
+  };
+
+  it('should return the status of the configured Ledger connector', async () => {
+    const getDeviceStatus = vi.fn().mockResolvedValue(status);
+    const client = createClient({ connectors: [{ id: 'ledger', getDeviceStatus } as unknown as Connector] });
+    const { result } = renderHook(() => useLedgerStatus({ refetchInterval: 0 }), {
+      wrapper: ({ children }: { children: React.ReactNode }) => wrapper({ client, children }),
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(result.current.data).toEqual(status);
+    expect(getDeviceStatus).toHaveBeenCalled();
+  });
+
+  it('should fail when there is no Ledger connector', async () => {
+    console.error = vi.fn();
+    const client = createClient({ connectors: [] });
+    const { result } = renderHook(() => useLedgerStatus({ refetchInterval: 0 }, { retry: false }), {
+      wrapper: ({ children }: { children: React.ReactNode }) => wrapper({ client, children }),
+    });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    expect(result.current.error).toBeInstanceOf(ConnectorNotLedgerError);
+  });
+});
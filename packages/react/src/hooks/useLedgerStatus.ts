@@ -0,0 +1,34 @@
+import { useQuery, UseQueryOptions, UseQueryResult } from '@tanstack/react-query';
+import { getLedgerDeviceStatus, LedgerDeviceStatus } from '@casperdash/usewallet-core';
+
+import { QueryKeysEnum } from '../enums';
+import { useOptionalClient } from '../provider';
+
+type Params = {
+  refetchInterval?: number;
+};
+
+type Options = Omit<UseQueryOptions<LedgerDeviceStatus>, 'queryKey' | 'queryFn'>;
+
+/**
+ * It polls the status of the Ledger device and of its Casper app, so the UI can tell the user to plug
+ * in, unlock the device, open the Casper app or update it.
+ * @param {Params}  - `refetchInterval` - the polling interval in milliseconds
+ * @param {Options} options - The options of the query.
+ * @returns The query of the status.
+ */
+export const useLedgerStatus = (
+  { refetchInterval = 2000 }: Params = {},
+  options?: Options,
+): UseQueryResult<LedgerDeviceStatus> => {
+  const client = useOptionalClient();
+
+  return useQuery<LedgerDeviceStatus>(
+    [QueryKeysEnum.LEDGER_STATUS],
+    async () => getLedgerDeviceStatus({ client }),
+    {
+      refetchInterval,
+      ...options,
+    },
+  );
+};
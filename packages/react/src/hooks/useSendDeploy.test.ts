@@ -0,0 +1,41 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { Deploy, sendDeploy } from '@casperdash/usewallet-core';
+import { describe, expect, it, vi } from 'vitest';
+
+import { wrapper } from '../../test';
+
+import { useSendDeploy } from './useSendDeploy';
+
+vi.mock('@casperdash/usewallet-core/actions/deploy/sendDeploy', () => ({
+  sendDeploy: vi.fn().mockResolvedValue('deployHash'),
+}));
+
+describe('useSendDeploy', () => {
+  const deploy = { deploy: { hash: 'deployHash' } } as unknown as Deploy;
+
+  it('should send the deploy and return its hash', async () => {
+    const onSuccess = vi.fn();
+    const { result } = renderHook(() => useSendDeploy({ rpcUrl: 'http://localhost:7777/rpc', onSuccess }), {
+      wrapper,
+    });
+
+    await act(async () => {
+      await result.current.sendDeployAsync({ deploy, rpcUrl: 'http://localhost:7777/rpc' });
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBeTruthy());
+
+    expect(result.current.data).toBe('deployHash');
+    expect(sendDeploy).toHaveBeenCalledWith(expect.objectContaining({ deploy, rpcUrl: 'http://localhost:7777/rpc' }));
+    expect(onSuccess).toHaveBeenCalledOnce();
+  });
+
+  it('should fail without a deploy', async () => {
+    console.error = vi.fn();
+    const { result } = renderHook(() => useSendDeploy(), { wrapper });
+
+    await act(async () => {
+      await expect(result.current.sendDeployAsync()).rejects.toThrow('deploy must be a signed deploy');
+    });
+  });
+});
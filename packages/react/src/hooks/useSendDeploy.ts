@@ -0,0 +1,84 @@
+import { useCallback } from 'react';
+import { useMutation, UseMutationOptions } from '@tanstack/react-query';
+import { sendDeploy, SendDeployParams } from '@casperdash/usewallet-core';
+import { MutationKeysEnum } from '@casperdash/usewallet';
+
+import { Client } from '../client';
+import { useOptionalClient } from '../provider';
+
+export type UseSendDeployParams = Partial<Omit<SendDeployParams, 'client'>>;
+
+export type UseSendDeployConfig = Partial<
+UseMutationOptions<string, unknown, UseSendDeployParams>
+>;
+
+export type UseSendDeployProps = Partial<UseSendDeployParams & UseSendDeployConfig>;
+
+const mutationFn = (client?: Client) => async ({ deploy, rpcUrl }: UseSendDeployParams) => {
+  if (!deploy) {
+    throw new Error('deploy must be a signed deploy');
+  }
+
+  return sendDeploy({ deploy, rpcUrl, client });
+};
+
+/**
+ * It sends a signed deploy to the node at `rpcUrl`, or at the RPC URL of the client config, the data of the
+ * mutation is the hash of the deploy.
+ */
+export const useSendDeploy = ({
+  deploy,
+  rpcUrl,
+  onError,
+  onMutate,
+  onSettled,
+  onSuccess,
+}: UseSendDeployProps = {}) => {
+  const client = useOptionalClient();
+  const {
+    data,
+    error,
+    isError,
+    isIdle,
+    isLoading,
+    isSuccess,
+    reset,
+    status,
+    variables,
+    mutate,
+    mutateAsync,
+  } = useMutation([MutationKeysEnum.SEND_DEPLOY, rpcUrl], mutationFn(client), {
+    onError,
+    onMutate,
+    onSettled,
+    onSuccess,
+  });
+
+  const send = useCallback((params?: UseSendDeployParams) => {
+    return mutate(params || {
+      deploy,
+      rpcUrl,
+    });
+  }, [deploy, rpcUrl, mutate]);
+
+  const sendAsync = useCallback(async (params?: UseSendDeployParams) => {
+    return mutateAsync(params || {
+      deploy,
+      rpcUrl,
+    });
+  }, [deploy, rpcUrl, mutateAsync]);
+
+  return {
+    sendDeploy: send,
+    sendDeployAsync: sendAsync,
+    data,
+    error,
+    isError,
+    isIdle,
+    isLoading,
+    isSuccess,
+    reset,
+    status,
+    variables,
+  };
+};
@@ -4,35 +4,44 @@ import {
   setLedgerAccountIndex as setLedgerAccountIndexDapp,
 } from '@casperdash/usewallet-core';
 
+import { Client } from '../client';
+import { useOptionalClient } from '../provider';
+
 export type UseSetLedgerAccountIndexParams = {
   index?: string;
+  path?: string;
+  pathTemplate?: string;
 };
 
 export type UseSetLedgerAccountIndexConfig = Partial<
-UseMutationOptions<{ index: string }, unknown, UseSetLedgerAccountIndexParams>
+UseMutationOptions<{ index: string; path?: string }, unknown, UseSetLedgerAccountIndexParams>
 >;
 
 export type UseSetLedgerAccountIndexProps = Partial<UseSetLedgerAccountIndexParams & UseSetLedgerAccountIndexConfig>;
 
-const mutationFn = async ({ index }: UseSetLedgerAccountIndexParams) => {
+const mutationFn = (client?: Client) => async ({ index, path, pathTemplate }: UseSetLedgerAccountIndexParams) => {
   if (!index) {
     throw new Error('index must be a non-empty string');
   }
 
-  await setLedgerAccountIndexDapp({ index });
+  await setLedgerAccountIndexDapp({ index, path, pathTemplate, client });
 
   return {
     index,
+    path,
   };
 };
 
 export const useSetLedgerAccountIndex = ({
   index,
+  path,
+  pathTemplate,
   onError,
   onMutate,
   onSettled,
   onSuccess,
 }: UseSetLedgerAccountIndexProps = {}) => {
+  const client = useOptionalClient();
   const {
     data,
     error,
@@ -45,7 +54,7 @@ export const useSetLedgerAccountIndex = ({
     variables,
     mutate,
     mutateAsync,
-  } = useMutation(['set_ledger_account_index'], mutationFn, {
+  } = useMutation(['set_ledger_account_index'], mutationFn(client), {
     onError,
     onMutate,
     onSettled,
@@ -55,14 +64,18 @@ export const useSetLedgerAccountIndex = ({
   const setLedgerAccountIndex = useCallback((params?: UseSetLedgerAccountIndexParams) => {
     return mutate(params || {
       index,
+      path,
+      pathTemplate,
     });
-  }, [index, mutate]);
+  }, [index, path, pathTemplate, mutate]);
 
   const setLedgerAccountIndexAsync = useCallback(async (params?: UseSetLedgerAccountIndexParams) => {
     return mutateAsync(params || {
       index,
+      path,
+      pathTemplate,
     });
-  }, [index, mutateAsync]);
+  }, [index, path, pathTemplate, mutateAsync]);
 
   return {
     setLedgerAccountIndex,
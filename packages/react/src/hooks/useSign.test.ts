@@ -2,7 +2,7 @@ import { act, renderHook, waitFor } from '@testing-library/react';
 import { Connector } from '@casperdash/usewallet-core';
 import { describe, expect, it, vi } from 'vitest';
 
-import { wrapper } from '../../test';
+import { createConnectedWrapper, wrapper } from '../../test';
 
 import { useSign } from './useSign';
 
@@ -22,6 +22,12 @@ vi.mock('@casperdash/usewallet-core/utils/client', () => ({
 }));
 
 describe('useSign', () => {
+  const connector = {
+    id: 'casperDash',
+    sign: vi.fn().mockResolvedValue({ deploy: { hash: '123' } }),
+  } as unknown as Connector;
+  const connectedWrapper = createConnectedWrapper(connector);
+
   it('should return deploy hash data with hook params and signAsync function', async () => {
     console.error = vi.fn();
     const onSuccess = vi.fn();
@@ -31,7 +37,7 @@ describe('useSign', () => {
       targetPublicKeyHex: '456',
       onSuccess,
     }), {
-      wrapper: wrapper,
+      wrapper: connectedWrapper,
     });
 
     await act(async () => {
@@ -42,7 +48,7 @@ describe('useSign', () => {
 
     expect(onSuccess).toHaveBeenCalledOnce();
     expect(onSuccess.mock.calls[0]).toEqual([
-      undefined,
+      { deploy: { hash: '123' } },
       {
         deploy: { id: '123' },
         signingPublicKeyHex: '123',
@@ -61,7 +67,7 @@ describe('useSign', () => {
       targetPublicKeyHex: '456',
       onSuccess,
     }), {
-      wrapper: wrapper,
+      wrapper: connectedWrapper,
     });
 
     act( () => {
@@ -72,7 +78,7 @@ describe('useSign', () => {
 
     expect(onSuccess).toHaveBeenCalledOnce();
     expect(onSuccess.mock.calls[0]).toEqual([
-      undefined,
+      { deploy: { hash: '123' } },
       {
         deploy: { id: '123' },
         signingPublicKeyHex: '123',
@@ -3,7 +3,10 @@ import { useMutation, UseMutationOptions } from '@tanstack/react-query';
 import { sign as signDapp, SignParams, SignResult } from '@casperdash/usewallet-core';
 import { MutationKeysEnum } from '@casperdash/usewallet';
 
-export type UseSignParams = Partial<SignParams>;
+import { Client } from '../client';
+import { useOptionalClient } from '../provider';
+
+export type UseSignParams = Partial<Omit<SignParams, 'client'>>;
 
 export type UseSignConfig = Partial<
 UseMutationOptions<SignResult, unknown, UseSignParams>
@@ -11,7 +14,7 @@ UseMutationOptions<SignResult, unknown, UseSignParams>
 
 export type UseSignProps = Partial<UseSignParams & UseSignConfig>;
 
-const mutationFn = async ({ deploy, signingPublicKeyHex, targetPublicKeyHex }: UseSignParams) => {
+const mutationFn = (client?: Client) => async ({ deploy, signingPublicKeyHex, targetPublicKeyHex }: UseSignParams) => {
   if (!deploy) {
     throw new Error('Deploy must be a non-empty');
   }
@@ -22,7 +25,7 @@ const mutationFn = async ({ deploy, signingPublicKeyHex, targetPublicKeyHex }: U
     throw new Error('targetPublicKeyHex must be a non-empty string');
   }
 
-  return signDapp({ deploy, signingPublicKeyHex, targetPublicKeyHex });
+  return signDapp({ deploy, signingPublicKeyHex, targetPublicKeyHex, client });
 };
 
 export const useSign = ({
@@ -34,6 +37,7 @@ export const useSign = ({
   onSettled,
   onSuccess,
 }: UseSignProps = {}) => {
+  const client = useOptionalClient();
   const {
     data,
     error,
@@ -46,7 +50,7 @@ export const useSign = ({
     variables,
     mutate,
     mutateAsync,
-  } = useMutation([MutationKeysEnum.SIGN], mutationFn, {
+  } = useMutation([MutationKeysEnum.SIGN], mutationFn(client), {
     onError,
     onMutate,
     onSettled,
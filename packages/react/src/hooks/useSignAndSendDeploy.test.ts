@@ -0,0 +1,206 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import {
+  Connector,
+  Deploy,
+  DeployExecutionError,
+  DeployStatusEnum,
+  DeploySubmissionError,
+  RejectedSignDeployError,
+  sendDeploy,
+  sign,
+  SignParams,
+  waitForDeploy,
+} from '@casperdash/usewallet-core';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { wrapper } from '../../test';
+import { SignAndSendDeployStatusEnum } from '../enums';
+
+import { useAccount } from './useAccount';
+import { useSignAndSendDeploy } from './useSignAndSendDeploy';
+
+vi.mock('./useAccount', () => ({
+  useAccount: vi.fn(),
+}));
+
+vi.mock('@casperdash/usewallet-core/actions/signing/sign', () => ({
+  sign: vi.fn(),
+}));
+
+vi.mock('@casperdash/usewallet-core/actions/deploy/sendDeploy', () => ({
+  sendDeploy: vi.fn(),
+}));
+
+vi.mock('@casperdash/usewallet-core/actions/deploy/waitForDeploy', () => ({
+  waitForDeploy: vi.fn(),
+}));
+
+describe('useSignAndSendDeploy', () => {
+  const publicKey = 'publicKey';
+  const unsignedDeploy = { deploy: { hash: 'deployHash' } } as unknown as SignParams['deploy'];
+  const signedDeploy = { deploy: { hash: 'deployHash', approvals: [] } } as unknown as Deploy;
+  const successResult = { deployHash: 'deployHash', status: DeployStatusEnum.SUCCESS, cost: '100000000' };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    console.error = vi.fn();
+    vi.mocked(useAccount).mockReturnValue({ publicKey, connector: {} as Connector } as ReturnType<typeof useAccount>);
+    vi.mocked(sign).mockResolvedValue(signedDeploy);
+    vi.mocked(sendDeploy).mockResolvedValue('deployHash');
+    vi.mocked(waitForDeploy).mockResolvedValue(successResult);
+  });
+
+  it('should go through signing, submitting and pending until the deploy is executed', async () => {
+    let resolveExecution: (value: typeof successResult) => void = () => {};
+    vi.mocked(waitForDeploy).mockReturnValueOnce(new Promise((resolve: (value: typeof successResult) => void) => {
+      resolveExecution = resolve;
+    }));
+    const buildDeploy = vi.fn().mockReturnValue(unsignedDeploy);
+    const { result } = renderHook(() => useSignAndSendDeploy({ rpcUrl: 'http://localhost:7777/rpc' }), { wrapper });
+
+    expect(result.current.status).toBe(SignAndSendDeployStatusEnum.IDLE);
+
+    act(() => {
+      result.current.signAndSendDeploy({ deploy: buildDeploy });
+    });
+
+    await waitFor(() => expect(result.current.status).toBe(SignAndSendDeployStatusEnum.PENDING));
+    expect(result.current.deployHash).toBe('deployHash');
+    expect(buildDeploy).toHaveBeenCalledWith(publicKey);
+    expect(sign).toHaveBeenCalledWith(expect.objectContaining({
+      deploy: unsignedDeploy,
+      signingPublicKeyHex: publicKey,
+      targetPublicKeyHex: publicKey,
+    }));
+    expect(sendDeploy).toHaveBeenCalledWith(expect.objectContaining({
+      deploy: signedDeploy,
+      rpcUrl: 'http://localhost:7777/rpc',
+    }));
+
+    resolveExecution(successResult);
+
+    await waitFor(() => expect(result.current.status).toBe(SignAndSendDeployStatusEnum.EXECUTED));
+    expect(result.current.data).toEqual({ deployHash: 'deployHash', signedDeploy, result: successResult });
+  });
+
+  it('should start a new run from signing without the deploy hash of the previous one', async () => {
+    const { result } = renderHook(() => useSignAndSendDeploy({ deploy: unsignedDeploy }), { wrapper });
+
+    await act(async () => {
+      await result.current.signAndSendDeployAsync();
+    });
+    expect(result.current.status).toBe(SignAndSendDeployStatusEnum.EXECUTED);
+    expect(result.current.deployHash).toBe('deployHash');
+
+    vi.mocked(sign).mockReturnValueOnce(new Promise(() => undefined));
+    act(() => {
+      result.current.signAndSendDeploy();
+    });
+
+    expect(result.current.status).toBe(SignAndSendDeployStatusEnum.SIGNING);
+    expect(result.current.deployHash).toBeUndefined();
+  });
+
+  it('should not show the progress of the previous run once a new run started', async () => {
+    let resolveSubmission: (value: string) => void = () => {};
+    vi.mocked(sendDeploy).mockReturnValueOnce(new Promise((resolve: (value: string) => void) => {
+      resolveSubmission = resolve;
+    }));
+    const { result } = renderHook(() => useSignAndSendDeploy({ deploy: unsignedDeploy }), { wrapper });
+
+    act(() => {
+      result.current.signAndSendDeploy();
+    });
+    await waitFor(() => expect(result.current.status).toBe(SignAndSendDeployStatusEnum.SUBMITTING));
+
+    vi.mocked(sign).mockReturnValueOnce(new Promise(() => undefined));
+    act(() => {
+      result.current.signAndSendDeploy();
+    });
+    expect(result.current.status).toBe(SignAndSendDeployStatusEnum.SIGNING);
+
+    await act(async () => {
+      resolveSubmission('previousDeployHash');
+    });
+    await waitFor(() => expect(waitForDeploy).toHaveBeenCalledWith(expect.objectContaining({ deployHash: 'previousDeployHash' })));
+
+    expect(result.current.status).toBe(SignAndSendDeployStatusEnum.SIGNING);
+    expect(result.current.deployHash).toBeUndefined();
+  });
+
+  it('should reset the status and the deploy hash for the next run', async () => {
+    vi.mocked(waitForDeploy).mockReturnValueOnce(new Promise(() => undefined));
+    const { result } = renderHook(() => useSignAndSendDeploy({ deploy: unsignedDeploy }), { wrapper });
+
+    act(() => {
+      result.current.signAndSendDeploy();
+    });
+    await waitFor(() => expect(result.current.status).toBe(SignAndSendDeployStatusEnum.PENDING));
+
+    act(() => {
+      result.current.reset();
+    });
+
+    expect(result.current.status).toBe(SignAndSendDeployStatusEnum.IDLE);
+    expect(result.current.deployHash).toBeUndefined();
+
+    vi.mocked(sign).mockReturnValueOnce(new Promise(() => undefined));
+    act(() => {
+      result.current.signAndSendDeploy();
+    });
+
+    expect(result.current.status).toBe(SignAndSendDeployStatusEnum.SIGNING);
+  });
+
+  it('should fail with the rejection of the user', async () => {
+    vi.mocked(sign).mockRejectedValueOnce(new RejectedSignDeployError());
+    const { result } = renderHook(() => useSignAndSendDeploy({ deploy: unsignedDeploy }), { wrapper });
+
+    await act(async () => {
+      await expect(result.current.signAndSendDeployAsync()).rejects.toBeInstanceOf(RejectedSignDeployError);
+    });
+
+    await waitFor(() => expect(result.current.status).toBe(SignAndSendDeployStatusEnum.FAILED));
+    expect(sendDeploy).not.toHaveBeenCalled();
+  });
+
+  it('should fail with DeploySubmissionError when the node does not accept the deploy', async () => {
+    const cause = new Error('invalid deploy');
+    vi.mocked(sendDeploy).mockRejectedValueOnce(cause);
+    const { result } = renderHook(() => useSignAndSendDeploy({ deploy: unsignedDeploy }), { wrapper });
+
+    await act(async () => {
+      await expect(result.current.signAndSendDeployAsync()).rejects.toMatchObject({
+        name: 'DeploySubmissionError',
+        cause,
+      });
+    });
+
+    await waitFor(() => expect(result.current.status).toBe(SignAndSendDeployStatusEnum.FAILED));
+    expect(result.current.error).toBeInstanceOf(DeploySubmissionError);
+    expect(waitForDeploy).not.toHaveBeenCalled();
+  });
+
+  it('should fail with DeployExecutionError when the execution fails', async () => {
+    vi.mocked(waitForDeploy).mockResolvedValueOnce({
+      deployHash: 'deployHash',
+      status: DeployStatusEnum.FAILURE,
+      cost: '2500000000',
+      errorMessage: 'User error: 65535',
+    });
+    const { result } = renderHook(() => useSignAndSendDeploy({ deploy: unsignedDeploy }), { wrapper });
+
+    await act(async () => {
+      await expect(result.current.signAndSendDeployAsync()).rejects.toMatchObject({
+        name: 'DeployExecutionError',
+        deployHash: 'deployHash',
+        cost: '2500000000',
+        errorMessage: 'User error: 65535',
+      });
+    });
+
+    await waitFor(() => expect(result.current.status).toBe(SignAndSendDeployStatusEnum.FAILED));
+    expect(result.current.error).toBeInstanceOf(DeployExecutionError);
+    expect(result.current.deployHash).toBe('deployHash');
+  });
+});
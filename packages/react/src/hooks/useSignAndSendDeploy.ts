@@ -0,0 +1,177 @@
+import { useCallback, useRef, useState } from 'react';
+import { useMutation, UseMutationOptions } from '@tanstack/react-query';
+import {
+  ConnectorNotFoundError,
+  Deploy,
+  DeployExecutionError,
+  DeployResult,
+  DeployStatusEnum,
+  DeploySubmissionError,
+  sendDeploy,
+  sign,
+  SignParams,
+  waitForDeploy,
+} from '@casperdash/usewallet-core';
+import { MutationKeysEnum } from '@casperdash/usewallet';
+
+import { SignAndSendDeployStatusEnum } from '../enums';
+import { useOptionalClient } from '../provider';
+
+import { useAccount } from './useAccount';
+
+type UnsignedDeploy = SignParams['deploy'];
+
+export type UseSignAndSendDeployParams = {
+  /* The unsigned deploy, or a callback building it for the public key of the active account */
+  deploy?: UnsignedDeploy | ((publicKey: string) => UnsignedDeploy | Promise<UnsignedDeploy>);
+  /* The active public key by default */
+  targetPublicKeyHex?: string;
+  rpcUrl?: string;
+  timeout?: number;
+  pollInterval?: number;
+};
+
+export type SignAndSendDeployResult = {
+  deployHash: string;
+  signedDeploy: Deploy;
+  result: DeployResult;
+};
+
+export type UseSignAndSendDeployConfig = Partial<
+UseMutationOptions<SignAndSendDeployResult, unknown, UseSignAndSendDeployParams>
+>;
+
+export type UseSignAndSendDeployProps = Partial<UseSignAndSendDeployParams & UseSignAndSendDeployConfig>;
+
+/**
+ * It signs a deploy with the active account, sends it and waits for its execution, `status` going from
+ * `signing` to `submitting` and `pending`, then `executed` or `failed`. The error tells why it failed: a
+ * `UserRejectedRequestError` when the user rejects, `DeploySubmissionError` when the node does not accept
+ * the deploy, `DeployExecutionError` when the execution fails and `DeployTimeoutError` when it takes too long.
+ */
+export const useSignAndSendDeploy = ({
+  onError,
+  onMutate,
+  onSettled,
+  onSuccess,
+  ...signAndSendParams
+}: UseSignAndSendDeployProps = {}) => {
+  const client = useOptionalClient();
+  const { publicKey, connector } = useAccount();
+  const [step, setStep] = useState<SignAndSendDeployStatusEnum>(SignAndSendDeployStatusEnum.SIGNING);
+  const [deployHash, setDeployHash] = useState<string>();
+  const runIdRef = useRef(0);
+
+  const mutationFn = async ({
+    deploy,
+    targetPublicKeyHex,
+    rpcUrl,
+    timeout,
+    pollInterval,
+  }: UseSignAndSendDeployParams): Promise<SignAndSendDeployResult> => {
+    // A run that was superseded by a new run or a reset keeps going, but no longer shows its progress.
+    const runId = runIdRef.current;
+    const isCurrentRun = () => runIdRef.current === runId;
+
+    if (!publicKey || !connector) {
+      throw new ConnectorNotFoundError();
+    }
+    if (!deploy) {
+      throw new Error('Deploy is required');
+    }
+
+    const unsignedDeploy = typeof deploy === 'function' ? await deploy(publicKey) : deploy;
+    const signedDeploy = await sign({
+      deploy: unsignedDeploy,
+      signingPublicKeyHex: publicKey,
+      targetPublicKeyHex: targetPublicKeyHex ?? publicKey,
+      client,
+    });
+
+    if (isCurrentRun()) {
+      setStep(SignAndSendDeployStatusEnum.SUBMITTING);
+    }
+    let hash: string;
+    try {
+      hash = await sendDeploy({ deploy: signedDeploy, rpcUrl, client });
+    } catch (error) {
+      throw new DeploySubmissionError({ cause: error, message: (error as Error)?.message });
+    }
+    if (isCurrentRun()) {
+      setDeployHash(hash);
+      setStep(SignAndSendDeployStatusEnum.PENDING);
+    }
+
+    const result = await waitForDeploy({ deployHash: hash, rpcUrl, timeout, pollInterval, client });
+    if (result.status === DeployStatusEnum.FAILURE) {
+      throw new DeployExecutionError(result);
+    }
+
+    return { deployHash: hash, signedDeploy, result };
+  };
+
+  const {
+    data,
+    error,
+    isError,
+    isIdle,
+    isLoading,
+    isSuccess,
+    reset: resetMutation,
+    variables,
+    mutate,
+    mutateAsync,
+  } = useMutation([MutationKeysEnum.SIGN_AND_SEND_DEPLOY, publicKey], mutationFn, {
+    onError,
+    onMutate,
+    onSettled,
+    onSuccess,
+  });
+
+  const status = isIdle
+    ? SignAndSendDeployStatusEnum.IDLE
+    : isSuccess
+      ? SignAndSendDeployStatusEnum.EXECUTED
+      : isError
+        ? SignAndSendDeployStatusEnum.FAILED
+        : step;
+
+  // The progress of the previous run is cleared before mutating, so a new run never shows its step or hash.
+  const resetProgress = useCallback(() => {
+    runIdRef.current += 1;
+    setStep(SignAndSendDeployStatusEnum.SIGNING);
+    setDeployHash(undefined);
+  }, []);
+
+  const signAndSendDeploy = useCallback((params?: UseSignAndSendDeployParams) => {
+    resetProgress();
+
+    return mutate({ ...signAndSendParams, ...params });
+  }, [signAndSendParams, mutate, resetProgress]);
+
+  const signAndSendDeployAsync = useCallback(async (params?: UseSignAndSendDeployParams) => {
+    resetProgress();
+
+    return mutateAsync({ ...signAndSendParams, ...params });
+  }, [signAndSendParams, mutateAsync, resetProgress]);
+
+  const reset = useCallback(() => {
+    resetProgress();
+    resetMutation();
+  }, [resetMutation, resetProgress]);
+
+  return {
+    signAndSendDeploy,
+    signAndSendDeployAsync,
+    status,
+    deployHash,
+    data,
+    error,
+    isError,
+    isIdle,
+    isLoading,
+    isSuccess,
+    reset,
+    variables,
+  };
+};
@@ -0,0 +1,65 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { Connector, ConnectorNotFoundError, parseSignInMessage } from '@casperdash/usewallet-core';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createConnectedWrapper } from '../../test';
+
+import { useAccount } from './useAccount';
+import { SignInResult, useSignIn } from './useSignIn';
+
+vi.mock('./useAccount', () => ({
+  useAccount: vi.fn(),
+}));
+
+describe('useSignIn', () => {
+  const publicKey = `01${'a'.repeat(64)}`;
+  const connector = {
+    id: 'casperDash',
+    signMessage: vi.fn().mockResolvedValue('signature'),
+  } as unknown as Connector;
+  const connectedWrapper = createConnectedWrapper(connector);
+
+  beforeEach(() => {
+    vi.mocked(useAccount).mockReturnValue({ publicKey } as ReturnType<typeof useAccount>);
+  });
+
+  it('should sign a sign in message with the nonce from getNonce', async () => {
+    const getNonce = vi.fn().mockResolvedValue('serverNonce123');
+    const { result } = renderHook(() => useSignIn({
+      chainName: 'casper-test',
+      statement: 'Sign in to Example',
+      getNonce,
+    }), {
+      wrapper: connectedWrapper,
+    });
+
+    await act(async () => {
+      await result.current.signInAsync();
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBeTruthy());
+
+    const { message, signature } = result.current.data as SignInResult;
+    expect(signature).toBe('signature');
+    expect(connector.signMessage).toHaveBeenCalledWith(message, publicKey);
+    expect(parseSignInMessage(message)).toMatchObject({
+      domain: window.location.host,
+      uri: window.location.origin,
+      publicKey,
+      statement: 'Sign in to Example',
+      chainName: 'casper-test',
+      nonce: 'serverNonce123',
+    });
+  });
+
+  it('should fail when no account is connected', async () => {
+    vi.mocked(useAccount).mockReturnValue({ publicKey: null } as ReturnType<typeof useAccount>);
+    const { result } = renderHook(() => useSignIn({ chainName: 'casper-test' }), {
+      wrapper: connectedWrapper,
+    });
+
+    await act(async () => {
+      await expect(result.current.signInAsync()).rejects.toBeInstanceOf(ConnectorNotFoundError);
+    });
+  });
+});
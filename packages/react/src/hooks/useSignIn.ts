@@ -0,0 +1,113 @@
+import { useCallback } from 'react';
+import { useMutation, UseMutationOptions } from '@tanstack/react-query';
+import {
+  ConnectorNotFoundError,
+  createSignInMessage,
+  CreateSignInMessageParams,
+  generateNonce,
+} from '@casperdash/usewallet-core';
+import { MutationKeysEnum } from '@casperdash/usewallet';
+
+import { useAccount } from './useAccount';
+import { useSignMessage } from './useSignMessage';
+
+export type UseSignInParams = Partial<Omit<CreateSignInMessageParams, 'publicKey'>> & {
+  getNonce?: () => Promise<string>;
+};
+
+export type SignInResult = {
+  message: string;
+  signature: string;
+  publicKey: string;
+};
+
+export type UseSignInConfig = Partial<
+UseMutationOptions<SignInResult, unknown, UseSignInParams>
+>;
+
+export type UseSignInProps = Partial<UseSignInParams & UseSignInConfig>;
+
+const getLocation = (): Partial<Location> => {
+  return typeof window === 'undefined' ? {} : window.location;
+};
+
+/**
+ * It signs in with the active account: it builds a Sign-In With Casper message, with the nonce from `getNonce`
+ * (e.g. fetched from the server) or a random one, and signs it. The server verifies the result with `verifySignIn`.
+ */
+export const useSignIn = ({
+  onError,
+  onMutate,
+  onSettled,
+  onSuccess,
+  ...signInParams
+}: UseSignInProps = {}) => {
+  const { publicKey } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+
+  const mutationFn = async ({ getNonce, nonce, chainName, ...params }: UseSignInParams): Promise<SignInResult> => {
+    if (!publicKey) {
+      throw new ConnectorNotFoundError();
+    }
+    if (!chainName) {
+      throw new Error('chainName must be a non-empty string');
+    }
+
+    const { host = '', origin = '' } = getLocation();
+    const message = createSignInMessage({
+      domain: host,
+      uri: origin,
+      ...params,
+      publicKey,
+      chainName,
+      nonce: nonce ?? (getNonce ? await getNonce() : generateNonce()),
+    });
+    const signature = await signMessageAsync({ message, signingPublicKeyHex: publicKey });
+    if (!signature) {
+      throw new Error('Failed to sign the sign in message');
+    }
+
+    return { message, signature, publicKey };
+  };
+
+  const {
+    data,
+    error,
+    isError,
+    isIdle,
+    isLoading,
+    isSuccess,
+    reset,
+    status,
+    variables,
+    mutate,
+    mutateAsync,
+  } = useMutation([MutationKeysEnum.SIGN_IN, publicKey], mutationFn, {
+    onError,
+    onMutate,
+    onSettled,
+    onSuccess,
+  });
+
+  const signIn = useCallback((params?: UseSignInParams) => {
+    return mutate({ ...signInParams, ...params });
+  }, [signInParams, mutate]);
+
+  const signInAsync = useCallback(async (params?: UseSignInParams) => {
+    return mutateAsync({ ...signInParams, ...params });
+  }, [signInParams, mutateAsync]);
+
+  return {
+    signIn,
+    signInAsync,
+    data,
+    error,
+    isError,
+    isIdle,
+    isLoading,
+    isSuccess,
+    reset,
+    status,
+    variables,
+  };
+};
@@ -2,7 +2,7 @@ import { act, renderHook, waitFor } from '@testing-library/react';
 import { Connector } from '@casperdash/usewallet-core';
 import { describe, expect, it, vi } from 'vitest';
 
-import { wrapper } from '../../test';
+import { createConnectedWrapper, wrapper } from '../../test';
 
 import { useSignMessage } from './useSignMessage';
 
@@ -22,6 +22,12 @@ vi.mock('@casperdash/usewallet-core/utils/client', () => ({
 }));
 
 describe('useSignMessage', () => {
+  const connector = {
+    id: 'casperDash',
+    signMessage: vi.fn().mockResolvedValue('signed'),
+  } as unknown as Connector;
+  const connectedWrapper = createConnectedWrapper(connector);
+
   it('should return signed message with hook params and signMessageAsync function', async () => {
     console.error = vi.fn();
     const onSuccess = vi.fn();
@@ -30,7 +36,7 @@ describe('useSignMessage', () => {
       signingPublicKeyHex: '123',
       onSuccess,
     }), {
-      wrapper: wrapper,
+      wrapper: connectedWrapper,
     });
 
     await act(async () => {
@@ -41,7 +47,7 @@ describe('useSignMessage', () => {
 
     expect(onSuccess).toHaveBeenCalledOnce();
     expect(onSuccess.mock.calls[0]).toEqual([
-      undefined,
+      'signed',
       {
         message: '123',
         signingPublicKeyHex: '123',
@@ -58,7 +64,7 @@ describe('useSignMessage', () => {
       signingPublicKeyHex: '123',
       onSuccess,
     }), {
-      wrapper: wrapper,
+      wrapper: connectedWrapper,
     });
 
     act( () => {
@@ -69,7 +75,7 @@ describe('useSignMessage', () => {
 
     expect(onSuccess).toHaveBeenCalledOnce();
     expect(onSuccess.mock.calls[0]).toEqual([
-      undefined,
+      'signed',
       {
         message: '123',
         signingPublicKeyHex: '123',
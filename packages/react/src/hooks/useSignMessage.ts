@@ -7,7 +7,10 @@ import {
 } from '@casperdash/usewallet-core';
 import { MutationKeysEnum } from '@casperdash/usewallet';
 
-export type UseSignMessageParams = Partial<SignMessageParams>;
+import { Client } from '../client';
+import { useOptionalClient } from '../provider';
+
+export type UseSignMessageParams = Partial<Omit<SignMessageParams, 'client'>>;
 
 export type UseSignMessageConfig = Partial<
 UseMutationOptions<SignMessageResult, unknown, UseSignMessageParams>
@@ -15,7 +18,7 @@ UseMutationOptions<SignMessageResult, unknown, UseSignMessageParams>
 
 export type UseSignMessageProps = Partial<UseSignMessageParams & UseSignMessageConfig>;
 
-const mutationFn = async ({ message, signingPublicKeyHex }: UseSignMessageParams) => {
+const mutationFn = (client?: Client) => async ({ message, signingPublicKeyHex }: UseSignMessageParams) => {
   if (!message) {
     throw new Error('Message must be a non-empty string');
   }
@@ -23,7 +26,7 @@ const mutationFn = async ({ message, signingPublicKeyHex }: UseSignMessageParams
     throw new Error('signingPublicKeyHex must be a non-empty string');
   }
 
-  return signMessageDapp({ message, signingPublicKeyHex });
+  return signMessageDapp({ message, signingPublicKeyHex, client });
 };
 
 export const useSignMessage = ({
@@ -34,6 +37,7 @@ export const useSignMessage = ({
   onSettled,
   onSuccess,
 }: UseSignMessageProps = {}) => {
+  const client = useOptionalClient();
   const {
     data,
     error,
@@ -46,7 +50,7 @@ export const useSignMessage = ({
     variables,
     mutate,
     mutateAsync,
-  } = useMutation([MutationKeysEnum.SIGN_MESSAGE, signingPublicKeyHex, message], mutationFn, {
+  } = useMutation([MutationKeysEnum.SIGN_MESSAGE, signingPublicKeyHex, message], mutationFn(client), {
     onError,
     onMutate,
     onSettled,
@@ -0,0 +1,43 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { Connector, ConnectorNotLedgerError } from '@casperdash/usewallet-core';
+import { createClient } from '@casperdash/usewallet';
+import { describe, expect, it, vi } from 'vitest';
+
+import { wrapper } from '../../test';
+
+import { useVerifyLedgerAddress } from './useVerifyLedgerAddress';
+
+describe('useVerifyLedgerAddress', () => {
+  it('should return the public key once the address is approved on the device', async () => {
+    const verifyAddress = vi.fn().mockResolvedValue('publicKey');
+    const connector = { id: 'ledger', verifyAddress } as unknown as Connector;
+    const client = createClient({ connectors: [connector] });
+    client.setState((state: typeof client.state) => ({ ...state, connector }));
+    const { result } = renderHook(() => useVerifyLedgerAddress({ index: '1' }), {
+      wrapper: ({ children }: { children: React.ReactNode }) => wrapper({ client, children }),
+    });
+
+    await act(async () => {
+      await result.current.verifyLedgerAddressAsync();
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(result.current.data).toEqual({ publicKey: 'publicKey' });
+    expect(verifyAddress).toHaveBeenCalledWith('1');
+  });
+
+  it('should fail when the active connector is not the Ledger one', async () => {
+    console.error = vi.fn();
+    const client = createClient({ connectors: [] });
+    const { result } = renderHook(() => useVerifyLedgerAddress(), {
+      wrapper: ({ children }: { children: React.ReactNode }) => wrapper({ client, children }),
+    });
+
+    act(() => {
+      result.current.verifyLedgerAddress();
+    });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(result.current.error).toBeInstanceOf(ConnectorNotLedgerError);
+  });
+});
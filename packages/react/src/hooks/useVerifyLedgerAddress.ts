@@ -0,0 +1,82 @@
+import { useCallback } from 'react';
+import { useMutation, UseMutationOptions } from '@tanstack/react-query';
+import { verifyLedgerAddress as verifyLedgerAddressDapp } from '@casperdash/usewallet-core';
+import { MutationKeysEnum } from '@casperdash/usewallet';
+
+import { Client } from '../client';
+import { useOptionalClient } from '../provider';
+
+export type UseVerifyLedgerAddressParams = {
+  index?: string;
+};
+
+export type UseVerifyLedgerAddressConfig = Partial<
+UseMutationOptions<{ publicKey: string }, unknown, UseVerifyLedgerAddressParams>
+>;
+
+export type UseVerifyLedgerAddressProps = Partial<UseVerifyLedgerAddressParams & UseVerifyLedgerAddressConfig>;
+
+const mutationFn = (client?: Client) => async ({ index }: UseVerifyLedgerAddressParams) => {
+  const publicKey = await verifyLedgerAddressDapp({ index, client });
+
+  return {
+    publicKey,
+  };
+};
+
+/**
+ * It shows the address of a Ledger account on the device, and succeeds only once the user approves it there
+ */
+export const useVerifyLedgerAddress = ({
+  index,
+  onError,
+  onMutate,
+  onSettled,
+  onSuccess,
+}: UseVerifyLedgerAddressProps = {}) => {
+  const client = useOptionalClient();
+  const {
+    data,
+    error,
+    isError,
+    isIdle,
+    isLoading,
+    isSuccess,
+    reset,
+    status,
+    variables,
+    mutate,
+    mutateAsync,
+  } = useMutation([MutationKeysEnum.VERIFY_LEDGER_ADDRESS], mutationFn(client), {
+    onError,
+    onMutate,
+    onSettled,
+    onSuccess,
+  });
+
+  const verifyLedgerAddress = useCallback((params?: UseVerifyLedgerAddressParams) => {
+    return mutate(params || {
+      index,
+    });
+  }, [index, mutate]);
+
+  const verifyLedgerAddressAsync = useCallback(async (params?: UseVerifyLedgerAddressParams) => {
+    return mutateAsync(params || {
+      index,
+    });
+  }, [index, mutateAsync]);
+
+  return {
+    verifyLedgerAddress,
+    verifyLedgerAddressAsync,
+    data,
+    error,
+    isError,
+    isIdle,
+    isLoading,
+    isSuccess,
+    reset,
+    status,
+    variables,
+  };
+};
@@ -0,0 +1,31 @@
+import { renderHook } from '@testing-library/react';
+import { verifyMessageSignature, VerifyMessageSignatureParams } from '@casperdash/usewallet-core';
+import { describe, expect, it, vi } from 'vitest';
+
+import { useVerifyMessage } from './useVerifyMessage';
+
+vi.mock('@casperdash/usewallet-core/utils/message', () => ({
+  verifyMessageSignature: vi.fn(({ publicKey }: VerifyMessageSignatureParams) => publicKey === 'signer'),
+}));
+
+describe('useVerifyMessage', () => {
+  it('should return whether the signature is valid', () => {
+    const { result, rerender } = renderHook(
+      ({ publicKey }: { publicKey: string }) => useVerifyMessage({ message: 'hello', signature: 'abc', publicKey }),
+      { initialProps: { publicKey: 'signer' } },
+    );
+
+    expect(result.current).toBe(true);
+    expect(verifyMessageSignature).toHaveBeenCalledWith({ message: 'hello', signature: 'abc', publicKey: 'signer' });
+
+    rerender({ publicKey: 'another' });
+
+    expect(result.current).toBe(false);
+  });
+
+  it('should return undefined until the signature is given', () => {
+    const { result } = renderHook(() => useVerifyMessage({ message: 'hello', publicKey: 'signer' }));
+
+    expect(result.current).toBeUndefined();
+  });
+});
@@ -0,0 +1,27 @@
+import { useMemo } from 'react';
+import { verifyMessageSignature } from '@casperdash/usewallet-core';
+
+export type UseVerifyMessageParams = {
+  message?: string;
+  signature?: string;
+  publicKey?: string;
+};
+
+/**
+ * It verifies the signature returned by `useSignMessage` on the client, e.g. before sending it to the
+ * server of a login flow.
+ * @param {UseVerifyMessageParams}  - `message`, hex `signature` and hex `publicKey` of the signer
+ * @returns Whether the signature is valid, or undefined until every param is given.
+ */
+export const useVerifyMessage = ({ message, signature, publicKey }: UseVerifyMessageParams = {}): boolean | undefined => {
+  return useMemo(
+    () => {
+      if (message === undefined || !signature || !publicKey) {
+        return undefined;
+      }
+
+      return verifyMessageSignature({ message, signature, publicKey });
+    },
+    [message, signature, publicKey],
+  );
+};
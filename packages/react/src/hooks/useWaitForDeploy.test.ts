@@ -0,0 +1,55 @@
+import { renderHook, waitFor } from '@testing-library/react';
+import { DeployStatusEnum, waitForDeploy } from '@casperdash/usewallet-core';
+import { describe, expect, it, vi } from 'vitest';
+
+import { wrapper } from '../../test';
+
+import { useWaitForDeploy } from './useWaitForDeploy';
+
+vi.mock('@casperdash/usewallet-core/actions/deploy/waitForDeploy', () => ({
+  waitForDeploy: vi.fn(),
+}));
+
+describe('useWaitForDeploy', () => {
+  it('should not wait without a deploy hash', () => {
+    const { result } = renderHook(() => useWaitForDeploy({}), { wrapper });
+
+    expect(result.current.isPending).toBe(false);
+    expect(result.current.isProcessed).toBe(false);
+    expect(waitForDeploy).not.toHaveBeenCalled();
+  });
+
+  it('should be pending until the deploy is executed', async () => {
+    let resolve: (value: unknown) => void = () => {};
+    vi.mocked(waitForDeploy).mockReturnValueOnce(new Promise((resolvePromise: (value: unknown) => void) => {
+      resolve = resolvePromise;
+    }) as ReturnType<typeof waitForDeploy>);
+    const { result } = renderHook(() => useWaitForDeploy({ deployHash: 'pendingHash', pollInterval: 1000 }), { wrapper });
+
+    await waitFor(() => expect(result.current.isPending).toBe(true));
+    expect(waitForDeploy).toHaveBeenCalledWith(expect.objectContaining({ deployHash: 'pendingHash', pollInterval: 1000 }));
+
+    resolve({ deployHash: 'pendingHash', status: DeployStatusEnum.SUCCESS, cost: '100000000' });
+
+    await waitFor(() => expect(result.current.isProcessed).toBe(true));
+    expect(result.current.isPending).toBe(false);
+    expect(result.current.isExecutionSuccess).toBe(true);
+    expect(result.current.cost).toBe('100000000');
+  });
+
+  it('should expose the error message of a failed execution', async () => {
+    vi.mocked(waitForDeploy).mockResolvedValueOnce({
+      deployHash: 'failedHash',
+      status: DeployStatusEnum.FAILURE,
+      cost: '2500000000',
+      errorMessage: 'User error: 65535',
+    });
+    const { result } = renderHook(() => useWaitForDeploy({ deployHash: 'failedHash' }), { wrapper });
+
+    await waitFor(() => expect(result.current.isProcessed).toBe(true));
+    expect(result.current.isFailure).toBe(true);
+    expect(result.current.isExecutionSuccess).toBe(false);
+    expect(result.current.isSuccess).toBe(true);
+    expect(result.current.errorMessage).toBe('User error: 65535');
+  });
+});
@@ -0,0 +1,55 @@
+import { useQuery, UseQueryOptions } from '@tanstack/react-query';
+import {
+  DeployResult,
+  DeployStatusEnum,
+  waitForDeploy,
+  WaitForDeployParams,
+} from '@casperdash/usewallet-core';
+
+import { QueryKeysEnum } from '../enums';
+import { useOptionalClient } from '../provider';
+
+type Params = Partial<Omit<WaitForDeployParams, 'client'>>;
+
+type Options = Omit<UseQueryOptions<DeployResult>, 'queryKey' | 'queryFn'>;
+
+/**
+ * It waits for the execution of the deploy `deployHash` on the node, while `isPending` is true. Once
+ * `isProcessed`, `isExecutionSuccess` or `isFailure` tell the outcome with the `errorMessage` and the `cost`
+ * of the execution. `isSuccess` and `error` stay the ones of the query, `error` is set when the node can't
+ * be reached or the deploy is still pending after `timeout`.
+ * @param {Params}  - `deployHash`, `rpcUrl`, `timeout` and `pollInterval` of the polling.
+ * @param {Options} options - The options of the query.
+ * @returns The query of the deploy result.
+ */
+export const useWaitForDeploy = (
+  { deployHash, rpcUrl, timeout, pollInterval }: Params,
+  options?: Options,
+) => {
+  const client = useOptionalClient();
+  const query = useQuery<DeployResult>(
+    [QueryKeysEnum.DEPLOY_RESULT, deployHash, rpcUrl],
+    async () => waitForDeploy({
+      deployHash: deployHash as string,
+      rpcUrl,
+      timeout,
+      pollInterval,
+      client,
+    }),
+    {
+      ...options,
+      enabled: !!deployHash && options?.enabled !== false,
+    },
+  );
+  const { data } = query;
+
+  return {
+    ...query,
+    isPending: !!deployHash && query.isFetching && !data,
+    isProcessed: !!data,
+    isExecutionSuccess: data?.status === DeployStatusEnum.SUCCESS,
+    isFailure: data?.status === DeployStatusEnum.FAILURE,
+    errorMessage: data?.errorMessage,
+    cost: data?.cost,
+  };
+};
@@ -1,8 +1,9 @@
 export * from './hooks';
 
-export type { Account } from '@casperdash/usewallet-core';
+export type { Account, DeployResult, DiscoveredLedgerAccount } from '@casperdash/usewallet-core';
+export { DeployStatusEnum } from '@casperdash/usewallet-core';
 
-export { CasperProvider } from './provider';
+export { CasperProvider, useClient } from './provider';
 export * from './client';
 export * from './enums';
 
@@ -10,3 +11,9 @@ export { useFetchLedgerAccounts } from './hooks/useFetchLedgerAccounts';
 export type { LedgerAccount } from './hooks/useFetchLedgerAccounts';
 
 export { useSetLedgerAccountIndex } from './hooks/useSetLedgerAccountIndex';
+
+export { useLedgerStatus } from './hooks/useLedgerStatus';
+
+export { useDiscoverLedgerAccounts } from './hooks/useDiscoverLedgerAccounts';
+
+export { useVerifyLedgerAddress } from './hooks/useVerifyLedgerAddress';
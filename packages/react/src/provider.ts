@@ -50,3 +50,12 @@ export const useClient = () => {
     );
   return client;
 };
+
+/**
+ * `useOptionalClient` is a React hook that returns the client instance from the context, or
+ * `undefined` outside of `CasperProvider` so the actions fall back to the global client.
+ * @returns The client object or undefined.
+ */
+export const useOptionalClient = (): Client | undefined => {
+  return React.useContext(Context);
+};
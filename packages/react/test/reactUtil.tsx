@@ -1,6 +1,6 @@
 import React from 'react';
 import { QueryClient } from '@tanstack/react-query';
-import { CasperDashConnector } from '@casperdash/usewallet-core';
+import { CasperDashConnector, Connector } from '@casperdash/usewallet-core';
 import { CasperProvider, Client, createClient } from '@casperdash/usewallet';
 
 export const queryClient = new QueryClient({
@@ -28,3 +28,10 @@ export function wrapper({
 }: Props = {}) {
   return <CasperProvider client={client} {...rest} />;
 }
+
+/* It wraps the hooks in a client whose active connector is `connector` */
+export function createConnectedWrapper(connector: Connector) {
+  const client = { connector, queryClient } as unknown as Client;
+
+  return ({ children }: { children?: React.ReactNode }) => wrapper({ client, children });
+}
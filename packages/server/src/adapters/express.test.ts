@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SignInError, SignInErrorCodeEnum } from '@casperdash/usewallet-core';
+
+import { createSignInServiceMock } from '../../test';
+
+import { createExpressSignInHandlers, ExpressRequestLike } from './express';
+
+describe('createExpressSignInHandlers', () => {
+  const { service, session } = createSignInServiceMock();
+  const createResponse = () => {
+    const res = { status: vi.fn(), json: vi.fn() };
+    res.status.mockReturnValue(res);
+
+    return res;
+  };
+  const handlers = createExpressSignInHandlers(service);
+
+  it('should respond with a nonce', async () => {
+    const res = createResponse();
+
+    await handlers.nonce({ headers: {} }, res, vi.fn());
+
+    expect(res.json).toHaveBeenCalledWith({ nonce: 'nonce' });
+  });
+
+  it('should respond with the session token of a signed message', async () => {
+    const res = createResponse();
+
+    await handlers.verify({ headers: {}, body: { message: 'message', signature: 'signature' } }, res, vi.fn());
+
+    expect(service.verify).toHaveBeenCalledWith({ message: 'message', signature: 'signature' });
+    expect(res.json).toHaveBeenCalledWith({ token: 'token', session });
+  });
+
+  it('should respond 400 to a malformed body and 401 to a rejected sign in', async () => {
+    const res = createResponse();
+    await handlers.verify({ headers: {}, body: { message: 'message' } }, res, vi.fn());
+    expect(res.status).toHaveBeenCalledWith(400);
+
+    vi.mocked(service.verify).mockRejectedValueOnce(new SignInError({ code: SignInErrorCodeEnum.EXPIRED }));
+    const rejectedRes = createResponse();
+    await handlers.verify({ headers: {}, body: { message: 'message', signature: 'signature' } }, rejectedRes, vi.fn());
+    expect(rejectedRes.status).toHaveBeenCalledWith(401);
+    expect(rejectedRes.json).toHaveBeenCalledWith(expect.objectContaining({ error: SignInErrorCodeEnum.EXPIRED }));
+  });
+
+  it('should pass the other errors to next', async () => {
+    const error = new Error('store unavailable');
+    vi.mocked(service.verify).mockRejectedValueOnce(error);
+    const next = vi.fn();
+
+    await handlers.verify({ headers: {}, body: { message: 'message', signature: 'signature' } }, createResponse(), next);
+
+    expect(next).toHaveBeenCalledWith(error);
+  });
+
+  it('should set the session of a valid bearer token', () => {
+    const req: ExpressRequestLike = { headers: { authorization: 'Bearer token' } };
+    const next = vi.fn();
+
+    handlers.requireSession(req, createResponse(), next);
+
+    expect(req.signInSession).toEqual(session);
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('should respond 401 without a valid bearer token', () => {
+    const res = createResponse();
+    const next = vi.fn();
+
+    handlers.requireSession({ headers: { authorization: 'Bearer invalid' } }, res, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
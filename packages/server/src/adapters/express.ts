@@ -0,0 +1,75 @@
+import { SignInError } from '@casperdash/usewallet-core';
+
+import { SignInService } from '../signInService';
+import { SignInSession } from '../sessionToken';
+
+import {
+  BAD_REQUEST_BODY,
+  getBearerToken,
+  toErrorBody,
+  toVerifyParams,
+  UNAUTHORIZED_BODY,
+} from './utils';
+
+/* The parts of the Express request and response used by the handlers, the body is parsed by `express.json()` */
+export type ExpressRequestLike = {
+  body?: unknown;
+  headers: { authorization?: string };
+  signInSession?: SignInSession;
+};
+
+export type ExpressResponseLike = {
+  status(code: number): ExpressResponseLike;
+  json(body: unknown): unknown;
+};
+
+export type ExpressNextFunction = (error?: unknown) => void;
+
+/**
+ * It creates the Express handlers of a `SignInService`: `nonce` responds with a new nonce, `verify` responds
+ * with the session token of a signed message and `requireSession` is a middleware rejecting the requests
+ * without a valid `Bearer` token, and setting `req.signInSession` otherwise.
+ * @param {SignInService} service - The sign in service.
+ * @returns The handlers.
+ */
+export const createExpressSignInHandlers = (service: SignInService) => {
+  const nonce = async (_req: ExpressRequestLike, res: ExpressResponseLike, next: ExpressNextFunction) => {
+    try {
+      res.json({ nonce: await service.issueNonce() });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  const verify = async (req: ExpressRequestLike, res: ExpressResponseLike, next: ExpressNextFunction) => {
+    const params = toVerifyParams(req.body);
+    if (!params) {
+      res.status(400).json(BAD_REQUEST_BODY);
+      return;
+    }
+
+    try {
+      res.json(await service.verify(params));
+    } catch (error) {
+      if (error instanceof SignInError) {
+        res.status(401).json(toErrorBody(error));
+        return;
+      }
+      next(error);
+    }
+  };
+
+  const requireSession = (req: ExpressRequestLike, res: ExpressResponseLike, next: ExpressNextFunction) => {
+    const token = getBearerToken(req.headers.authorization);
+
+    try {
+      req.signInSession = service.getSession(token ?? '');
+    } catch (error) {
+      res.status(401).json(UNAUTHORIZED_BODY);
+      return;
+    }
+    next();
+  };
+
+  return { nonce, verify, requireSession };
+};
@@ -0,0 +1,49 @@
+// @vitest-environment node
+import { describe, expect, it, vi } from 'vitest';
+import { SignInError, SignInErrorCodeEnum } from '@casperdash/usewallet-core';
+
+import { createSignInServiceMock } from '../../test';
+
+import { createNextSignInHandlers } from './next';
+
+describe('createNextSignInHandlers', () => {
+  const { service, session } = createSignInServiceMock();
+  const handlers = createNextSignInHandlers(service);
+  const createRequest = (body: unknown) => new Request('https://example.com/api/verify', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+
+  it('should respond with a nonce', async () => {
+    const response = await handlers.nonce();
+
+    expect(await response.json()).toEqual({ nonce: 'nonce' });
+  });
+
+  it('should respond with the session token of a signed message', async () => {
+    const response = await handlers.verify(createRequest({ message: 'message', signature: 'signature' }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ token: 'token', session });
+  });
+
+  it('should respond 400 to a malformed body and 401 to a rejected sign in', async () => {
+    expect((await handlers.verify(createRequest(null))).status).toBe(400);
+
+    vi.mocked(service.verify).mockRejectedValueOnce(new SignInError({ code: SignInErrorCodeEnum.INVALID_SIGNATURE }));
+    const response = await handlers.verify(createRequest({ message: 'message', signature: 'signature' }));
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ error: SignInErrorCodeEnum.INVALID_SIGNATURE });
+  });
+
+  it('should read the session of the bearer token', () => {
+    const request = (authorization?: string) => new Request('https://example.com', {
+      headers: authorization ? { authorization } : {},
+    });
+
+    expect(handlers.getSession(request('Bearer token'))).toEqual(session);
+    expect(handlers.getSession(request('Bearer invalid'))).toBeNull();
+    expect(handlers.getSession(request())).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+import { SignInError } from '@casperdash/usewallet-core';
+
+import { SignInService } from '../signInService';
+import { SignInSession } from '../sessionToken';
+
+import {
+  BAD_REQUEST_BODY,
+  getBearerToken,
+  toErrorBody,
+  toVerifyParams,
+} from './utils';
+
+const json = (body: unknown, status: number = 200): Response => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+};
+
+/**
+ * It creates the Next.js route handlers of a `SignInService`, e.g. `export const GET = handlers.nonce` in
+ * `app/api/nonce/route.ts` and `export const POST = handlers.verify` in `app/api/verify/route.ts`.
+ * `getSession` reads the session of the `Bearer` token of a request, null if it is missing or invalid.
+ * @param {SignInService} service - The sign in service.
+ * @returns The handlers.
+ */
+export const createNextSignInHandlers = (service: SignInService) => {
+  const nonce = async (): Promise<Response> => {
+    return json({ nonce: await service.issueNonce() });
+  };
+
+  const verify = async (request: Request): Promise<Response> => {
+    const params = toVerifyParams(await request.json().catch(() => null));
+    if (!params) {
+      return json(BAD_REQUEST_BODY, 400);
+    }
+
+    try {
+      return json(await service.verify(params));
+    } catch (error) {
+      if (error instanceof SignInError) {
+        return json(toErrorBody(error), 401);
+      }
+      throw error;
+    }
+  };
+
+  const getSession = (request: Request): SignInSession | null => {
+    const token = getBearerToken(request.headers.get('authorization'));
+    if (!token) {
+      return null;
+    }
+
+    try {
+      return service.getSession(token);
+    } catch (error) {
+      return null;
+    }
+  };
+
+  return { nonce, verify, getSession };
+};
@@ -0,0 +1,39 @@
+import { SignInError } from '@casperdash/usewallet-core';
+
+import { SignInVerifyParams } from '../signInService';
+
+export type ErrorBody = {
+  error: string;
+  message: string;
+};
+
+/**
+ * It reads the token of a `Bearer` authorization header.
+ * @param {string | null} authorization - The value of the header.
+ * @returns The token, or null.
+ */
+export const getBearerToken = (authorization?: string | null): string | null => {
+  const [scheme, token] = authorization?.split(' ') ?? [];
+
+  return scheme?.toLowerCase() === 'bearer' && token ? token : null;
+};
+
+/**
+ * It checks the body of a verify request.
+ * @param {unknown} body - The parsed JSON body.
+ * @returns The params, or null when the body is malformed.
+ */
+export const toVerifyParams = (body: unknown): SignInVerifyParams | null => {
+  const { message, signature } = (body ?? {}) as Partial<SignInVerifyParams>;
+  if (typeof message !== 'string' || typeof signature !== 'string') {
+    return null;
+  }
+
+  return { message, signature };
+};
+
+export const toErrorBody = (error: SignInError): ErrorBody => ({ error: error.code, message: error.message });
+
+export const BAD_REQUEST_BODY: ErrorBody = { error: 'BAD_REQUEST', message: 'message and signature must be strings' };
+
+export const UNAUTHORIZED_BODY: ErrorBody = { error: 'UNAUTHORIZED', message: 'Invalid or expired session token' };
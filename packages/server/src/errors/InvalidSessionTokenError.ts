@@ -0,0 +1,4 @@
+export class InvalidSessionTokenError extends Error {
+  public name: string = 'InvalidSessionTokenError';
+  public message: string = 'Invalid or expired session token';
+}
@@ -0,0 +1,44 @@
+// @vitest-environment node
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { createFileNonceStore } from './fileNonceStore';
+
+describe('createFileNonceStore', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'usewallet-'));
+    path = join(dir, 'nonces.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should persist the nonces and consume them once', async () => {
+    const expiresAt = Date.now() + 1000;
+    await createFileNonceStore({ path }).add('nonce', expiresAt);
+
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toEqual({ nonce: expiresAt });
+
+    const store = createFileNonceStore({ path });
+    expect(await store.consume('nonce')).toBe(true);
+    expect(await store.consume('nonce')).toBe(false);
+  });
+
+  it('should drop the expired nonces', async () => {
+    const store = createFileNonceStore({ path });
+    await store.add('expired', Date.now() - 1);
+
+    expect(await store.consume('unknown')).toBe(false);
+    expect(await store.consume('expired')).toBe(false);
+
+    await store.add('nonce', Date.now() + 1000);
+    expect(Object.keys(JSON.parse(readFileSync(path, 'utf8')))).toEqual(['nonce']);
+  });
+});
@@ -0,0 +1,52 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+
+import { NonceStore } from './nonceStore';
+
+/**
+ * It reads the JSON file as a record of the nonces and their expiry, treating a missing file as empty
+ * @param {string} path - The path of the JSON file.
+ * @returns The record stored in the file.
+ */
+const readRecord = (path: string): Record<string, number> => {
+  if (!existsSync(path)) {
+    return {};
+  }
+
+  const content = readFileSync(path, 'utf8');
+
+  return content ? JSON.parse(content) : {};
+};
+
+const writeRecord = (path: string, record: Record<string, number>) => {
+  writeFileSync(path, JSON.stringify(record, null, 2));
+};
+
+/**
+ * It creates a `NonceStore` persisting the nonces in a JSON file, to keep them across restarts of a single server.
+ * @param {string} path - The path of the JSON file.
+ * @returns A `NonceStore`.
+ */
+export const createFileNonceStore = ({ path }: { path: string }): NonceStore => {
+  return {
+    add: async (nonce: string, expiresAt: number) => {
+      const now = Date.now();
+      const record = Object.fromEntries(
+        Object.entries(readRecord(path)).filter(([, itemExpiresAt]: [string, number]) => itemExpiresAt > now),
+      );
+
+      writeRecord(path, { ...record, [nonce]: expiresAt });
+    },
+    consume: async (nonce: string) => {
+      const record = readRecord(path);
+      const expiresAt = record[nonce];
+      if (expiresAt === undefined) {
+        return false;
+      }
+
+      delete record[nonce];
+      writeRecord(path, record);
+
+      return expiresAt > Date.now();
+    },
+  };
+};
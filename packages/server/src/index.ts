@@ -0,0 +1,11 @@
+export * from './nonceStore';
+export * from './fileNonceStore';
+export * from './redisNonceStore';
+
+export * from './sessionToken';
+export * from './signInService';
+
+export * from './adapters/express';
+export * from './adapters/next';
+
+export * from './errors';
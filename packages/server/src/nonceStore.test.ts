@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+
+import { createMemoryNonceStore } from './nonceStore';
+
+describe('createMemoryNonceStore', () => {
+  it('should consume an issued nonce once', async () => {
+    const store = createMemoryNonceStore();
+    await store.add('nonce', Date.now() + 1000);
+
+    expect(await store.consume('nonce')).toBe(true);
+    expect(await store.consume('nonce')).toBe(false);
+  });
+
+  it('should not consume an unknown or expired nonce', async () => {
+    const store = createMemoryNonceStore();
+    await store.add('expired', Date.now() - 1);
+
+    expect(await store.consume('unknown')).toBe(false);
+    expect(await store.consume('expired')).toBe(false);
+  });
+});
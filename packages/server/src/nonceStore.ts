@@ -0,0 +1,35 @@
+export type NonceStore = {
+  /* It stores an issued nonce until `expiresAt`, a timestamp in milliseconds */
+  add(nonce: string, expiresAt: number): Promise<void>;
+  /* It removes the nonce, returning true only if it was issued and has not expired, so a nonce is used once */
+  consume(nonce: string): Promise<boolean>;
+};
+
+/**
+ * It creates a `NonceStore` keeping the nonces in memory, for a single server process and tests.
+ * @returns A `NonceStore`.
+ */
+export const createMemoryNonceStore = (): NonceStore => {
+  const nonces = new Map<string, number>();
+
+  const prune = (now: number) => {
+    nonces.forEach((expiresAt: number, nonce: string) => {
+      if (expiresAt <= now) {
+        nonces.delete(nonce);
+      }
+    });
+  };
+
+  return {
+    add: async (nonce: string, expiresAt: number) => {
+      prune(Date.now());
+      nonces.set(nonce, expiresAt);
+    },
+    consume: async (nonce: string) => {
+      const expiresAt = nonces.get(nonce);
+      nonces.delete(nonce);
+
+      return expiresAt !== undefined && expiresAt > Date.now();
+    },
+  };
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createRedisNonceStore } from './redisNonceStore';
+
+describe('createRedisNonceStore', () => {
+  const createClient = () => {
+    const keys = new Set<string>();
+
+    return {
+      set: vi.fn(async (key: string) => {
+        keys.add(key);
+        return 'OK';
+      }),
+      del: vi.fn(async (key: string) => (keys.delete(key) ? 1 : 0)),
+    };
+  };
+
+  it('should set the nonce with its time to live', async () => {
+    vi.useFakeTimers({ now: 1000 });
+    const client = createClient();
+
+    await createRedisNonceStore({ client }).add('nonce', 6000);
+
+    expect(client.set).toHaveBeenCalledWith('usewallet:nonce:nonce', '1', 'PX', 5000);
+    vi.useRealTimers();
+  });
+
+  it('should consume a nonce once', async () => {
+    const client = createClient();
+    const store = createRedisNonceStore({ client, prefix: 'app:' });
+    await store.add('nonce', Date.now() + 1000);
+
+    expect(await store.consume('nonce')).toBe(true);
+    expect(await store.consume('nonce')).toBe(false);
+    expect(client.del).toHaveBeenCalledWith('app:nonce');
+  });
+});
@@ -0,0 +1,27 @@
+import { NonceStore } from './nonceStore';
+
+/* The subset of a Redis client used by the store, e.g. an `ioredis` client */
+export type RedisNonceClient = {
+  set(key: string, value: string, mode: 'PX', milliseconds: number): Promise<unknown>;
+  del(key: string): Promise<number>;
+};
+
+/**
+ * It creates a `NonceStore` keeping the nonces in Redis, shared by all the instances of the server. The nonces
+ * expire with the key, and consuming deletes the key so that only one request can use a nonce.
+ * @param {RedisNonceClient} client - The Redis client.
+ * @param {string} prefix - The prefix of the keys.
+ * @returns A `NonceStore`.
+ */
+export const createRedisNonceStore = (
+  { client, prefix = 'usewallet:nonce:' }: { client: RedisNonceClient; prefix?: string },
+): NonceStore => {
+  return {
+    add: async (nonce: string, expiresAt: number) => {
+      await client.set(`${prefix}${nonce}`, '1', 'PX', Math.max(expiresAt - Date.now(), 1));
+    },
+    consume: async (nonce: string) => {
+      return (await client.del(`${prefix}${nonce}`)) === 1;
+    },
+  };
+};
@@ -0,0 +1,37 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+
+import { InvalidSessionTokenError } from './errors/InvalidSessionTokenError';
+import { createSessionToken, verifySessionToken } from './sessionToken';
+
+describe('sessionToken', () => {
+  const session = {
+    publicKey: `01${'a'.repeat(64)}`,
+    chainName: 'casper-test',
+    issuedAt: 1704067200000,
+    expiresAt: 1704153600000,
+  };
+  const time = new Date(1704070800000);
+
+  it('should verify a created token', () => {
+    const token = createSessionToken(session, 'secret');
+
+    expect(token.split('.')).toHaveLength(3);
+    expect(verifySessionToken(token, 'secret', time)).toEqual(session);
+  });
+
+  it.each([
+    ['another secret', createSessionToken(session, 'another'), time],
+    ['an expired token', createSessionToken(session, 'secret'), new Date(session.expiresAt)],
+    ['a malformed token', 'token', time],
+  ])('should reject %s', (_case: string, token: string, verifyTime: Date) => {
+    expect(() => verifySessionToken(token, 'secret', verifyTime)).toThrow(InvalidSessionTokenError);
+  });
+
+  it('should reject a token with a tampered payload', () => {
+    const [header, , signature] = createSessionToken(session, 'secret').split('.');
+    const payload = Buffer.from(JSON.stringify({ sub: 'attacker', exp: 9999999999 })).toString('base64url');
+
+    expect(() => verifySessionToken(`${header}.${payload}.${signature}`, 'secret', time)).toThrow(InvalidSessionTokenError);
+  });
+});
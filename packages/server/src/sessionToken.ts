@@ -0,0 +1,83 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+import { InvalidSessionTokenError } from './errors/InvalidSessionTokenError';
+
+export type SignInSession = {
+  publicKey: string;
+  chainName: string;
+  /* Timestamps in milliseconds */
+  issuedAt: number;
+  expiresAt: number;
+};
+
+type SessionTokenPayload = {
+  sub: string;
+  chainName: string;
+  iat: number;
+  exp: number;
+};
+
+const HEADER = { alg: 'HS256', typ: 'JWT' };
+
+const encode = (value: unknown): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const decode = (value: string): unknown => JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+
+const sign = (content: string, secret: string): string => {
+  return createHmac('sha256', secret).update(content).digest('base64url');
+};
+
+/**
+ * It creates a session token for a signed in public key, a JWT signed with HMAC SHA-256.
+ * @param {SignInSession} session - The session.
+ * @param {string} secret - The secret of the server.
+ * @returns The token.
+ */
+export const createSessionToken = (session: SignInSession, secret: string): string => {
+  const payload: SessionTokenPayload = {
+    sub: session.publicKey,
+    chainName: session.chainName,
+    iat: Math.floor(session.issuedAt / 1000),
+    exp: Math.floor(session.expiresAt / 1000),
+  };
+  const content = `${encode(HEADER)}.${encode(payload)}`;
+
+  return `${content}.${sign(content, secret)}`;
+};
+
+/**
+ * It verifies the signature and the expiry of a session token.
+ * @param {string} token - The token.
+ * @param {string} secret - The secret of the server.
+ * @param {Date} time - The time to check the expiry against, now by default.
+ * @returns The session, or throws `InvalidSessionTokenError`.
+ */
+export const verifySessionToken = (token: string, secret: string, time: Date = new Date()): SignInSession => {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) {
+    throw new InvalidSessionTokenError();
+  }
+
+  const expectedSignature = Buffer.from(sign(`${header}.${payload}`, secret));
+  const actualSignature = Buffer.from(signature);
+  if (expectedSignature.length !== actualSignature.length || !timingSafeEqual(expectedSignature, actualSignature)) {
+    throw new InvalidSessionTokenError();
+  }
+
+  let claims: SessionTokenPayload;
+  try {
+    claims = decode(payload) as SessionTokenPayload;
+  } catch (error) {
+    throw new InvalidSessionTokenError();
+  }
+  if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number' || claims.exp * 1000 <= time.getTime()) {
+    throw new InvalidSessionTokenError();
+  }
+
+  return {
+    publicKey: claims.sub,
+    chainName: claims.chainName,
+    issuedAt: claims.iat * 1000,
+    expiresAt: claims.exp * 1000,
+  };
+};
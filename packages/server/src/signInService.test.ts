@@ -0,0 +1,72 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { encodeBase16, formatMessageWithHeaders, Keys, signFormattedMessage } from 'casper-js-sdk';
+import { createSignInMessage, SignInError, SignInErrorCodeEnum } from '@casperdash/usewallet-core';
+
+import { createSignInService } from './signInService';
+import { InvalidSessionTokenError } from './errors/InvalidSessionTokenError';
+
+describe('createSignInService', () => {
+  const keyPair = Keys.Ed25519.new();
+  const publicKey = keyPair.publicKey.toHex();
+  const signIn = (nonce: string, domain: string = 'example.com', chainName: string = 'casper-test') => {
+    const message = createSignInMessage({
+      domain,
+      publicKey,
+      uri: `https://${domain}`,
+      chainName,
+      nonce,
+    });
+
+    return { message, signature: encodeBase16(signFormattedMessage(keyPair, formatMessageWithHeaders(message))) };
+  };
+
+  it('should issue a session token for a signed message with an issued nonce', async () => {
+    const service = createSignInService({ domain: 'example.com', chainName: 'casper-test', secret: 'secret' });
+    const nonce = await service.issueNonce();
+
+    const { token, session } = await service.verify(signIn(nonce));
+
+    expect(session).toMatchObject({ publicKey, chainName: 'casper-test' });
+    expect(service.getSession(token)).toEqual({
+      ...session,
+      issuedAt: Math.floor(session.issuedAt / 1000) * 1000,
+      expiresAt: Math.floor(session.expiresAt / 1000) * 1000,
+    });
+  });
+
+  it('should reject a nonce which was not issued or was already used', async () => {
+    const service = createSignInService({ domain: 'example.com', chainName: 'casper-test', secret: 'secret' });
+    const nonce = await service.issueNonce();
+    await service.verify(signIn(nonce));
+
+    await expect(service.verify(signIn(nonce))).rejects.toMatchObject({ code: SignInErrorCodeEnum.NONCE_MISMATCH });
+    await expect(service.verify(signIn('notIssued123'))).rejects.toBeInstanceOf(SignInError);
+  });
+
+  it('should reject a message for another domain', async () => {
+    const service = createSignInService({ domain: 'example.com', chainName: 'casper-test', secret: 'secret' });
+    const nonce = await service.issueNonce();
+
+    await expect(service.verify(signIn(nonce, 'evil.com'))).rejects.toMatchObject({
+      code: SignInErrorCodeEnum.DOMAIN_MISMATCH,
+    });
+  });
+
+  it('should reject a message for another chain', async () => {
+    const service = createSignInService({ domain: 'example.com', chainName: 'casper', secret: 'secret' });
+    const nonce = await service.issueNonce();
+
+    await expect(service.verify(signIn(nonce))).rejects.toMatchObject({
+      code: SignInErrorCodeEnum.CHAIN_MISMATCH,
+    });
+  });
+
+  it('should reject a session token of another secret', async () => {
+    const service = createSignInService({ domain: 'example.com', chainName: 'casper-test', secret: 'secret' });
+    const { token } = await service.verify(signIn(await service.issueNonce()));
+
+    expect(() => createSignInService({ domain: 'example.com', chainName: 'casper-test', secret: 'another' }).getSession(token))
+      .toThrow(InvalidSessionTokenError);
+  });
+});
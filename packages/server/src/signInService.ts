@@ -0,0 +1,89 @@
+import {
+  generateNonce,
+  SignInError,
+  SignInErrorCodeEnum,
+  verifySignIn,
+} from '@casperdash/usewallet-core';
+
+import { createMemoryNonceStore, NonceStore } from './nonceStore';
+import { createSessionToken, SignInSession, verifySessionToken } from './sessionToken';
+
+export type SignInServiceOptions = {
+  /* The domain the sign in messages must be issued for, e.g. `example.com` */
+  domain: string;
+  /* The network the sign in messages must be issued for, e.g. `casper` */
+  chainName: string;
+  /* The secret signing the session tokens */
+  secret: string;
+  nonceStore?: NonceStore;
+  /* Lifetimes in milliseconds */
+  nonceTtl?: number;
+  sessionTtl?: number;
+};
+
+export type SignInVerifyParams = {
+  message: string;
+  signature: string;
+};
+
+export type SignInVerifyResult = {
+  token: string;
+  session: SignInSession;
+};
+
+export type SignInService = {
+  issueNonce(): Promise<string>;
+  verify(params: SignInVerifyParams): Promise<SignInVerifyResult>;
+  getSession(token: string): SignInSession;
+};
+
+const DEFAULT_NONCE_TTL = 5 * 60 * 1000;
+const DEFAULT_SESSION_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * It creates the server side of Sign-In With Casper: it issues single use nonces, verifies the signed
+ * messages of `useSignIn` against the domain, the chain and the issued nonces, and issues session tokens.
+ * @param {SignInServiceOptions}  - `domain`, `chainName`, `secret`, the `nonceStore` (in memory by default) and lifetimes.
+ * @returns A `SignInService`.
+ */
+export const createSignInService = ({
+  domain,
+  chainName,
+  secret,
+  nonceStore = createMemoryNonceStore(),
+  nonceTtl = DEFAULT_NONCE_TTL,
+  sessionTtl = DEFAULT_SESSION_TTL,
+}: SignInServiceOptions): SignInService => {
+  if (!secret) {
+    throw new Error('secret must be a non-empty string');
+  }
+
+  return {
+    issueNonce: async () => {
+      const nonce = generateNonce();
+      await nonceStore.add(nonce, Date.now() + nonceTtl);
+
+      return nonce;
+    },
+    verify: async ({ message, signature }: SignInVerifyParams) => {
+      const fields = verifySignIn({ message, signature, domain, chainName });
+      if (!await nonceStore.consume(fields.nonce)) {
+        throw new SignInError({
+          code: SignInErrorCodeEnum.NONCE_MISMATCH,
+          message: 'Sign in nonce was not issued, has expired or was already used',
+        });
+      }
+
+      const issuedAt = Date.now();
+      const session: SignInSession = {
+        publicKey: fields.publicKey,
+        chainName: fields.chainName,
+        issuedAt,
+        expiresAt: issuedAt + sessionTtl,
+      };
+
+      return { token: createSessionToken(session, secret), session };
+    },
+    getSession: (token: string) => verifySessionToken(token, secret),
+  };
+};
@@ -0,0 +1,27 @@
+import { vi } from 'vitest';
+
+import { InvalidSessionTokenError } from '../src/errors/InvalidSessionTokenError';
+import { SignInSession } from '../src/sessionToken';
+import { SignInService } from '../src/signInService';
+
+/**
+ * It creates a `SignInService` issuing the nonce `nonce` and the session token `token`, to test the adapters
+ * without signing messages
+ * @returns The service and the session of its token.
+ */
+export const createSignInServiceMock = (): { service: SignInService; session: SignInSession } => {
+  const session: SignInSession = { publicKey: '01ab', chainName: 'casper-test', issuedAt: 0, expiresAt: 1 };
+  const service: SignInService = {
+    issueNonce: vi.fn().mockResolvedValue('nonce'),
+    verify: vi.fn().mockResolvedValue({ token: 'token', session }),
+    getSession: vi.fn((token: string) => {
+      if (token !== 'token') {
+        throw new InvalidSessionTokenError();
+      }
+
+      return session;
+    }),
+  };
+
+  return { service, session };
+};
@@ -0,0 +1,11 @@
+import { defineConfig } from 'tsup';
+
+export default defineConfig((options) => ({
+  entry: ['src/index.ts'],
+  dts: true,
+  sourcemap: true,
+  platform: 'node',
+  format: ['cjs', 'esm'],
+  clean: true,
+  ...options,
+}));